@@ -4,93 +4,133 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth";
+import { useQuery, mutateOptimistic, queryKeys } from "@/lib/query";
 import { listMeetings, createMeeting, endMeeting, deleteMeeting } from "@/lib/api";
+import { ApiError, toFormErrors } from "@/lib/errors";
 import type { Meeting, MeetingCreate } from "@/types";
 import { SUPPORTED_LANGUAGES } from "@/types";
 import QRCodeModal from "@/components/QRCodeModal";
+import FieldError from "@/components/FieldError";
+
+const MEETING_FIELDS = [
+  "title",
+  "description",
+  "expected_participants",
+  "allowed_languages",
+] as const;
+
+const EMPTY_MEETING: MeetingCreate = {
+  title: "",
+  description: "",
+  expected_participants: undefined,
+  allowed_languages: ["en", "fr", "es"],
+};
+
+// Rows inserted optimistically before createMeeting resolves
+const PENDING_ID_PREFIX = "pending-";
+
+function isPending(meeting: Meeting): boolean {
+  return meeting.id.startsWith(PENDING_ID_PREFIX);
+}
 
 export default function DashboardPage() {
-  const { user, logout, isLoading: authLoading } = useAuth();
+  const { user, isLoading: authLoading } = useAuth();
   const router = useRouter();
-  const [meetings, setMeetings] = useState<Meeting[]>([]);
-  const [loading, setLoading] = useState(true);
+  const {
+    data: meetings = [],
+    error: loadError,
+    isLoading: meetingsLoading,
+  } = useQuery(queryKeys.meetings, listMeetings, { enabled: !!user });
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [newMeeting, setNewMeeting] = useState<MeetingCreate>({
-    title: "",
-    description: "",
-    expected_participants: undefined,
-    allowed_languages: ["en", "fr", "es"],
-  });
+  const [newMeeting, setNewMeeting] = useState<MeetingCreate>(EMPTY_MEETING);
   const [error, setError] = useState<string | null>(null);
-  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [actionError, setActionError] = useState<string | null>(null);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const [qrModalMeeting, setQrModalMeeting] = useState<Meeting | null>(null);
 
-  // Load meetings
   useEffect(() => {
-    if (isRedirecting) return;
     if (!authLoading && !user) {
       router.push("/login");
-      return;
     }
-    if (user) {
-      loadMeetings();
-    }
-  }, [user, authLoading, router, isRedirecting]);
+  }, [user, authLoading, router]);
 
-  const loadMeetings = async () => {
-    try {
-      const data = await listMeetings();
-      setMeetings(data);
-    } catch (err) {
-      console.error("Failed to load meetings:", err);
-      // If unauthorized, redirect to login
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      if (errorMessage.includes("401") || errorMessage.includes("Unauthorized")) {
-        setIsRedirecting(true);
-        logout();
-        router.push("/login");
-        return;
-      }
-      setError(err instanceof Error ? err.message : "Failed to load sessions");
-    }
-    setLoading(false);
-  };
+  // Expired sessions are handled by the API's unauthorized interceptor
+  const loadErrorMessage =
+    loadError && !(loadError instanceof ApiError && loadError.isUnauthorized)
+      ? toFormErrors(loadError, "Failed to load sessions").message
+      : null;
 
   const handleCreateMeeting = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
+    const draft = newMeeting;
+    const placeholder: Meeting = {
+      id: `${PENDING_ID_PREFIX}${Date.now()}`,
+      company_id: "",
+      code: "······",
+      title: draft.title,
+      description: draft.description || null,
+      expected_participants: draft.expected_participants ?? null,
+      allowed_languages: draft.allowed_languages ?? [],
+      status: "active",
+      created_at: new Date().toISOString(),
+    };
+
+    // Close the modal straight away; reopen it with the errors on failure
+    setShowCreateModal(false);
+    setNewMeeting(EMPTY_MEETING);
     try {
-      const meeting = await createMeeting(newMeeting);
-      setMeetings([meeting, ...meetings]);
-      setShowCreateModal(false);
-      setNewMeeting({
-        title: "",
-        description: "",
-        expected_participants: undefined,
-        allowed_languages: ["en", "fr", "es"],
-      });
+      await mutateOptimistic<Meeting[], Meeting>(
+        queryKeys.meetings,
+        (prev = []) => [placeholder, ...prev],
+        () => createMeeting(draft),
+        (current = [], created) =>
+          current.map((m) => (m.id === placeholder.id ? created : m)),
+        (current = []) => current.filter((m) => m.id !== placeholder.id)
+      );
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to create session");
+      const { message, fields } = toFormErrors(err, "Failed to create session", MEETING_FIELDS);
+      setNewMeeting(draft);
+      setError(message);
+      setFieldErrors(fields);
+      setShowCreateModal(true);
     }
   };
 
   const handleEndMeeting = async (meetingId: string) => {
+    setActionError(null);
     try {
-      const updated = await endMeeting(meetingId);
-      setMeetings(meetings.map((m) => (m.id === meetingId ? updated : m)));
+      await mutateOptimistic<Meeting[], Meeting>(
+        queryKeys.meetings,
+        (prev = []) =>
+          prev.map((m) =>
+            m.id === meetingId
+              ? { ...m, status: "ended", ended_at: new Date().toISOString() }
+              : m
+          ),
+        () => endMeeting(meetingId),
+        (current = [], updated) => current.map((m) => (m.id === meetingId ? updated : m))
+      );
     } catch (err) {
       console.error("Failed to end session:", err);
+      setActionError(toFormErrors(err, "Failed to end session").message);
     }
   };
 
   const handleDeleteMeeting = async (meetingId: string) => {
     if (!confirm("Are you sure you want to delete this meeting?")) return;
+    setActionError(null);
     try {
-      await deleteMeeting(meetingId);
-      setMeetings(meetings.filter((m) => m.id !== meetingId));
+      await mutateOptimistic<Meeting[], void>(
+        queryKeys.meetings,
+        (prev = []) => prev.filter((m) => m.id !== meetingId),
+        () => deleteMeeting(meetingId)
+      );
     } catch (err) {
       console.error("Failed to delete meeting:", err);
+      setActionError(toFormErrors(err, "Failed to delete meeting").message);
     }
   };
 
@@ -101,7 +141,7 @@ export default function DashboardPage() {
     setTimeout(() => setCopiedCode(null), 2000);
   };
 
-  if (authLoading || loading) {
+  if (authLoading || meetingsLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-slate-50">
         <div className="h-8 w-8 animate-spin rounded-full border-4 border-violet-500 border-t-transparent" />
@@ -161,6 +201,11 @@ export default function DashboardPage() {
 
         {/* Content */}
         <main className="mx-auto flex w-full max-w-6xl flex-1 flex-col px-6 py-6 gap-6">
+          {(loadErrorMessage || actionError) && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-xs text-red-700">
+              {actionError ?? loadErrorMessage}
+            </div>
+          )}
           <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
             <div className="flex items-center justify-between border-b border-slate-100 px-5 py-4">
               <div>
@@ -212,12 +257,27 @@ export default function DashboardPage() {
                   </thead>
                   <tbody className="divide-y divide-slate-100 bg-white">
                     {meetings.map((meeting) => (
-                      <tr key={meeting.id} className="hover:bg-slate-50/60">
+                      <tr
+                        key={meeting.id}
+                        aria-busy={isPending(meeting)}
+                        className={`hover:bg-slate-50/60 ${
+                          isPending(meeting) ? "pointer-events-none opacity-60" : ""
+                        }`}
+                      >
                         <td className="px-5 py-3 align-middle">
                           <div className="flex flex-col">
-                            <span className="text-sm font-medium text-slate-900">
-                              {meeting.title || "Untitled session"}
-                            </span>
+                            {meeting.status === "ended" ? (
+                              <Link
+                                href={`/dashboard/sessions/${meeting.id}`}
+                                className="text-sm font-medium text-slate-900 hover:text-violet-700 hover:underline"
+                              >
+                                {meeting.title || "Untitled session"}
+                              </Link>
+                            ) : (
+                              <span className="text-sm font-medium text-slate-900">
+                                {meeting.title || "Untitled session"}
+                              </span>
+                            )}
                             {meeting.description && (
                               <span className="mt-1 text-xs text-slate-500">
                                 {meeting.description}
@@ -253,7 +313,11 @@ export default function DashboardPage() {
                             }`}
                           >
                             <span className="mr-1 h-1.5 w-1.5 rounded-full bg-current" />
-                            {meeting.status === "active" ? "Active" : "Ended"}
+                            {isPending(meeting)
+                              ? "Creating…"
+                              : meeting.status === "active"
+                              ? "Active"
+                              : "Ended"}
                           </span>
                         </td>
                         <td className="px-5 py-3 align-middle text-xs text-slate-600">
@@ -286,6 +350,14 @@ export default function DashboardPage() {
                                 </button>
                               </>
                             )}
+                            {meeting.status === "ended" && (
+                              <Link
+                                href={`/dashboard/sessions/${meeting.id}`}
+                                className="inline-flex items-center rounded-md bg-violet-50 px-3 py-1 text-[11px] font-medium text-violet-700 hover:bg-violet-100"
+                              >
+                                View
+                              </Link>
+                            )}
                             <button
                               onClick={() => handleDeleteMeeting(meeting.id)}
                               className="inline-flex items-center rounded-md bg-red-50 px-3 py-1 text-[11px] font-medium text-red-700 hover:bg-red-100"
@@ -334,6 +406,7 @@ export default function DashboardPage() {
                   className="mt-1 block w-full rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-violet-500 focus:outline-none focus:ring-1 focus:ring-violet-500"
                   placeholder="Weekly team standup"
                 />
+                <FieldError message={fieldErrors.title} />
               </div>
               <div>
                 <label className="block text-xs font-medium text-slate-700">
@@ -347,6 +420,7 @@ export default function DashboardPage() {
                   className="mt-1 block w-full rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-violet-500 focus:outline-none focus:ring-1 focus:ring-violet-500"
                   rows={2}
                 />
+                <FieldError message={fieldErrors.description} />
               </div>
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -367,6 +441,7 @@ export default function DashboardPage() {
                     }
                     className="mt-1 block w-full rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-violet-500 focus:outline-none focus:ring-1 focus:ring-violet-500"
                   />
+                  <FieldError message={fieldErrors.expected_participants} />
                 </div>
                 <div>
                   <label className="block text-xs font-medium text-slate-700">
@@ -398,6 +473,7 @@ export default function DashboardPage() {
                       </button>
                     ))}
                   </div>
+                  <FieldError message={fieldErrors.allowed_languages} />
                 </div>
               </div>
               <div className="mt-2 flex justify-end gap-2 pt-2">
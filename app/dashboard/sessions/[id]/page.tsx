@@ -0,0 +1,314 @@
+"use client";
+
+import { use, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  getMeeting,
+  getMeetingTranscripts,
+  getMeetingTranslations,
+  getMeetingSummaries,
+  getMeetingAnalytics,
+  listParticipants,
+} from "@/lib/api";
+import type {
+  Meeting,
+  Transcript,
+  Translation,
+  Summary,
+  Analytics,
+  Participant,
+} from "@/types";
+import { languageLabel } from "@/lib/languages";
+import { entriesFromHistory } from "@/lib/transcriptExport";
+import BarChart from "@/components/BarChart";
+import TranscriptExportMenu from "@/components/TranscriptExportMenu";
+
+// Analytics counters come back from the API as strings
+function toNumber(value?: string | null): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function formatDuration(value?: string | null): string {
+  const seconds = toNumber(value);
+  if (seconds === null) return value || "—";
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.round(seconds % 60);
+  if (h > 0) return `${h}h ${String(m).padStart(2, "0")}m`;
+  if (m > 0) return `${m}m ${String(s).padStart(2, "0")}s`;
+  return `${s}s`;
+}
+
+export default function SessionDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+
+  const [meeting, setMeeting] = useState<Meeting | null>(null);
+  const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+  const [translations, setTranslations] = useState<Translation[]>([]);
+  const [translationsError, setTranslationsError] = useState<string | null>(null);
+  const [summaries, setSummaries] = useState<Summary[]>([]);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        // Analytics and summaries are generated after the session ends and
+        // may not exist yet — treat those as optional. Missing translations
+        // would silently change the transcript, so that failure is shown.
+        let translationsFailure: string | null = null;
+        const [m, t, tr, s, a, p] = await Promise.all([
+          getMeeting(id),
+          getMeetingTranscripts(id),
+          getMeetingTranslations(id).catch((err) => {
+            translationsFailure =
+              err instanceof Error ? err.message : "Failed to load translations";
+            return [] as Translation[];
+          }),
+          getMeetingSummaries(id).catch(() => [] as Summary[]),
+          getMeetingAnalytics(id).catch(() => null),
+          listParticipants(id).catch(() => [] as Participant[]),
+        ]);
+        if (cancelled) return;
+        setMeeting(m);
+        setTranscripts(t);
+        setTranslations(tr);
+        setTranslationsError(translationsFailure);
+        setSummaries(s);
+        setAnalytics(a);
+        setParticipants(p);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load session");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // Pair each transcript with its translation rows, oldest first
+  const timeline = useMemo(() => {
+    const byTranscript = new Map<string, Translation[]>();
+    for (const tr of translations) {
+      const list = byTranscript.get(tr.transcript_id) ?? [];
+      list.push(tr);
+      byTranscript.set(tr.transcript_id, list);
+    }
+    return [...transcripts]
+      .sort((a, b) => (a.timestamp ?? "").localeCompare(b.timestamp ?? ""))
+      .map((t) => ({ transcript: t, translations: byTranscript.get(t.id) ?? [] }));
+  }, [transcripts, translations]);
+
+  const speakerNames = useMemo(
+    () => new Map(participants.map((p) => [p.id, p.name])),
+    [participants]
+  );
+
+  const exportEntries = useMemo(
+    () => entriesFromHistory(transcripts, translations, speakerNames),
+    [transcripts, translations, speakerNames]
+  );
+
+  const totalsData = analytics
+    ? [
+        { label: "Participants", value: toNumber(analytics.total_participants) ?? 0 },
+        { label: "Messages", value: toNumber(analytics.total_messages) ?? 0 },
+        { label: "Words", value: toNumber(analytics.total_words) ?? 0 },
+      ]
+    : [];
+
+  const languageData = Object.entries(analytics?.language_distribution ?? {})
+    .sort(([, a], [, b]) => b - a)
+    .map(([code, value]) => ({ label: languageLabel(code), value }));
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-50">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-violet-500 border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (error || !meeting) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-50">
+        <div className="rounded-lg bg-red-50 p-6 text-red-600">
+          <p className="font-medium">Error: {error ?? "Session not found"}</p>
+          <Link href="/dashboard" className="mt-4 inline-block text-sm underline">
+            Back to sessions
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      {/* Top bar */}
+      <header className="border-b border-slate-200 bg-white">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <div>
+            <Link href="/dashboard" className="text-xs text-violet-600 hover:underline">
+              ← All sessions
+            </Link>
+            <h1 className="mt-1 text-lg font-semibold tracking-tight">
+              {meeting.title || "Untitled session"}
+            </h1>
+            <p className="mt-1 text-xs text-slate-500">
+              <span className="font-mono">{meeting.code}</span>
+              {meeting.created_at && (
+                <> · {new Date(meeting.created_at).toLocaleString()}</>
+              )}
+              {meeting.ended_at && (
+                <> — ended {new Date(meeting.ended_at).toLocaleTimeString()}</>
+              )}
+            </p>
+          </div>
+          <span
+            className={`inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-medium ${
+              meeting.status === "active"
+                ? "bg-emerald-50 text-emerald-700 ring-1 ring-emerald-100"
+                : "bg-slate-100 text-slate-700 ring-1 ring-slate-200"
+            }`}
+          >
+            <span className="mr-1 h-1.5 w-1.5 rounded-full bg-current" />
+            {meeting.status === "active" ? "Active" : "Ended"}
+          </span>
+        </div>
+      </header>
+
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-6 px-6 py-6">
+        {/* Analytics */}
+        <section>
+          <h2 className="mb-3 text-base font-semibold tracking-tight">Analytics</h2>
+          {analytics ? (
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="rounded-xl border border-slate-200 bg-white p-4">
+                <h3 className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                  Duration
+                </h3>
+                <p className="mt-3 text-2xl font-semibold">
+                  {formatDuration(analytics.total_duration)}
+                </p>
+              </div>
+              <BarChart title="Session totals" data={totalsData} />
+              <BarChart
+                title="Language distribution"
+                data={languageData}
+                emptyLabel="No language data recorded."
+              />
+            </div>
+          ) : (
+            <p className="rounded-xl border border-slate-200 bg-white p-4 text-xs text-slate-500">
+              Analytics are not available for this session yet.
+            </p>
+          )}
+        </section>
+
+        {/* Summaries */}
+        <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+          <div className="border-b border-slate-100 px-5 py-4">
+            <h2 className="text-base font-semibold tracking-tight">Summaries</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              One summary per session language.
+            </p>
+          </div>
+          {summaries.length === 0 ? (
+            <p className="px-5 py-6 text-xs text-slate-500">No summaries generated yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {summaries.map((s) => (
+                <li key={s.id} className="px-5 py-4">
+                  <div className="mb-1 flex items-center justify-between">
+                    <span className="rounded bg-violet-50 px-1.5 py-0.5 text-[11px] font-medium text-violet-700">
+                      {languageLabel(s.language)}
+                    </span>
+                    {s.generated_at && (
+                      <span className="text-[11px] text-slate-400">
+                        {new Date(s.generated_at).toLocaleString()}
+                      </span>
+                    )}
+                  </div>
+                  <p className="whitespace-pre-line text-sm text-slate-700">{s.summary_text}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Transcript timeline */}
+        <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+          <div className="flex items-start justify-between border-b border-slate-100 px-5 py-4">
+            <div>
+              <h2 className="text-base font-semibold tracking-tight">Transcript</h2>
+              <p className="mt-1 text-xs text-slate-500">
+                {timeline.length} message{timeline.length === 1 ? "" : "s"}
+              </p>
+              {translationsError && (
+                <p className="mt-1 text-xs text-red-600">
+                  Translations could not be loaded: {translationsError}
+                </p>
+              )}
+            </div>
+            <TranscriptExportMenu
+              meeting={meeting}
+              entries={exportEntries}
+              languages={meeting.allowed_languages}
+            />
+          </div>
+          {timeline.length === 0 ? (
+            <p className="px-5 py-6 text-xs text-slate-500">No transcripts were recorded.</p>
+          ) : (
+            <ol className="divide-y divide-slate-100">
+              {timeline.map(({ transcript: t, translations: trs }) => (
+                <li key={t.id} className="px-5 py-3">
+                  <div className="mb-1 flex items-center justify-between">
+                    <span className="text-sm font-medium text-slate-900">
+                      {(t.speaker_id && speakerNames.get(t.speaker_id)) || "Unknown speaker"}
+                    </span>
+                    <span className="text-[11px] text-slate-400">
+                      {t.timestamp ? new Date(t.timestamp).toLocaleTimeString() : "—"}
+                    </span>
+                  </div>
+                  <p className="text-sm text-slate-700">
+                    <span className="mr-2 rounded bg-slate-100 px-1.5 py-0.5 text-[10px] font-medium uppercase text-slate-500">
+                      {t.original_language}
+                    </span>
+                    {t.original_text}
+                  </p>
+                  {trs.length > 0 && (
+                    <ul className="mt-2 space-y-1 border-l-2 border-violet-100 pl-3">
+                      {trs.map((tr) => (
+                        <li key={tr.id} className="text-xs text-slate-600">
+                          <span className="mr-2 font-medium text-violet-700">
+                            {languageLabel(tr.language)}
+                          </span>
+                          {tr.translated_text}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
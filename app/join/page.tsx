@@ -1,10 +1,12 @@
 "use client";
 
-import { useEffect, useState, Suspense } from "react";
+import { useEffect, useRef, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { getMeetingByCode, joinMeeting } from "@/lib/api";
-import { SUPPORTED_LANGUAGES } from "@/types";
+import { isAbortError, toFormErrors } from "@/lib/errors";
+import FieldError from "@/components/FieldError";
+import { browserLanguages, isLanguageAllowed, languageLabel, meetingLanguages, pickLanguage } from "@/lib/languages";
 import type { Meeting, Participant } from "@/types";
 
 function JoinPageContent() {
@@ -13,20 +15,37 @@ function JoinPageContent() {
   const searchParams = useSearchParams();
   const initialCode = searchParams.get("code") || "";
 
-  const [step, setStep] = useState<"code" | "name" | "joining">(
+  const [step, setStep] = useState<"code" | "name" | "ended" | "joining">(
     initialCode ? "name" : "code"
   );
   const [code, setCode] = useState(initialCode.toUpperCase());
   const [meeting, setMeeting] = useState<Meeting | null>(null);
   const [name, setName] = useState("");
-  const [preferredLanguage, setPreferredLanguage] = useState("en");
+  // Explicit choice in the select; otherwise derived from storage/browser
+  const [chosenLanguage, setChosenLanguage] = useState<string | null>(null);
+  const [storedLanguage, setStoredLanguage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
+  // In-flight lookup/join request, cancelled on unmount or when superseded
+  const requestRef = useRef<AbortController | null>(null);
 
-  // Restreindre les langues proposées aux participants (fr, en, es)
-  const PARTICIPANT_LANGUAGES = SUPPORTED_LANGUAGES.filter((lang) =>
-    ["en", "fr", "es"].includes(lang.code)
-  );
+  useEffect(() => {
+    return () => requestRef.current?.abort();
+  }, []);
+
+  const startRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = new AbortController();
+    return requestRef.current.signal;
+  };
+
+  // Only offer the languages the host configured for this session
+  const languageOptions = meetingLanguages(meeting);
+  const preferredLanguage =
+    pickLanguage([chosenLanguage, storedLanguage, ...browserLanguages()], languageOptions) ?? "";
+  const storedLanguageUnavailable =
+    !!meeting && !chosenLanguage && !!storedLanguage && !isLanguageAllowed(storedLanguage, languageOptions);
 
   // Pré-remplir nom + langue depuis le stockage local si disponible
   useEffect(() => {
@@ -36,8 +55,8 @@ function JoinPageContent() {
       if (storedName) {
         setName(storedName);
       }
-      if (storedLang && ["en", "fr", "es"].includes(storedLang)) {
-        setPreferredLanguage(storedLang);
+      if (storedLang) {
+        setStoredLanguage(storedLang);
       }
     } catch {
       // Ignore storage errors
@@ -47,29 +66,41 @@ function JoinPageContent() {
   // Fetch meeting data if initialCode is present in URL
   useEffect(() => {
     if (!initialCode) return;
+    const controller = new AbortController();
     setLoading(true);
-    getMeetingByCode(initialCode.toUpperCase())
+    getMeetingByCode(initialCode.toUpperCase(), { signal: controller.signal })
       .then((m) => {
         setMeeting(m);
-        setStep("name");
+        setStep(m.status === "ended" ? "ended" : "name");
       })
       .catch((err) => {
-        setError(err instanceof Error ? err.message : "Meeting not found");
+        if (isAbortError(err)) return;
+        const { message, fields } = toFormErrors(err, "Meeting not found", ["code"]);
+        setError(message);
+        setFieldErrors(fields);
         setStep("code");
       })
-      .finally(() => setLoading(false));
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
   }, [initialCode]);
 
   const handleLookup = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
     setLoading(true);
+    const signal = startRequest();
     try {
-      const m = await getMeetingByCode(code);
+      const m = await getMeetingByCode(code, { signal });
       setMeeting(m);
-      setStep("name");
+      setStep(m.status === "ended" ? "ended" : "name");
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Session not found");
+      if (isAbortError(err)) return;
+      const { message, fields } = toFormErrors(err, "Session not found", ["code"]);
+      setError(message);
+      setFieldErrors(fields);
     } finally {
       setLoading(false);
     }
@@ -79,7 +110,9 @@ function JoinPageContent() {
     e.preventDefault();
     if (!meeting) return;
     setError(null);
+    setFieldErrors({});
     setLoading(true);
+    const signal = startRequest();
     try {
       // Mémoriser les préférences du participant côté navigateur
       try {
@@ -89,14 +122,23 @@ function JoinPageContent() {
         // Ignore storage errors
       }
 
-      const participant: Participant = await joinMeeting({
-        meeting_id: meeting.id,
-        name,
-        preferred_language: preferredLanguage,
-      });
+      const participant: Participant = await joinMeeting(
+        {
+          meeting_id: meeting.id,
+          name,
+          preferred_language: preferredLanguage,
+        },
+        { signal }
+      );
       router.push(`/room/${meeting.code}?participantId=${participant.id}`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to join session");
+      if (isAbortError(err)) return;
+      const { message, fields } = toFormErrors(err, "Failed to join session", [
+        "name",
+        "preferred_language",
+      ]);
+      setError(message);
+      setFieldErrors(fields);
     } finally {
       setLoading(false);
     }
@@ -138,6 +180,7 @@ function JoinPageContent() {
                 placeholder="ABC123"
                 style={{ textTransform: "uppercase" }}
               />
+              <FieldError message={fieldErrors.code} />
             </div>
             <button
               type="submit"
@@ -149,12 +192,44 @@ function JoinPageContent() {
           </form>
         )}
 
+        {step === "ended" && meeting && (
+          <div className="space-y-4">
+            <div className="rounded-md bg-gray-50 p-4 text-center text-sm text-gray-700">
+              <p className="font-medium text-gray-900">{meeting.title}</p>
+              <p className="mt-1">
+                This session has ended
+                {meeting.ended_at && ` (${new Date(meeting.ended_at).toLocaleString()})`}.
+              </p>
+              <p className="mt-2 text-xs text-gray-500">
+                Ask the host for the transcript, or for a new code if you expected a live session.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setStep("code");
+                setMeeting(null);
+                setCode("");
+              }}
+              className="w-full rounded-md border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Join another session
+            </button>
+          </div>
+        )}
+
         {step === "name" && meeting && (
           <form onSubmit={handleJoin} className="space-y-4">
             <div className="mb-4 rounded-md bg-green-50 p-3 text-sm text-green-700">
               Session: <strong>{meeting.title}</strong>
             </div>
 
+            {meeting.is_locked && (
+              <div className="rounded-md bg-amber-50 p-3 text-sm text-amber-700">
+                The host has locked this session. Ask them to unlock it, then try again.
+              </div>
+            )}
+
             <div>
               <label
                 htmlFor="name"
@@ -171,6 +246,7 @@ function JoinPageContent() {
                 className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-[#5048E5] focus:outline-none focus:ring-1 focus:ring-[#5048E5]"
                 placeholder="Jean Pierre"
               />
+              <FieldError message={fieldErrors.name} />
             </div>
 
             <div>
@@ -183,15 +259,22 @@ function JoinPageContent() {
               <select
                 id="language"
                 value={preferredLanguage}
-                onChange={(e) => setPreferredLanguage(e.target.value)}
+                onChange={(e) => setChosenLanguage(e.target.value)}
                 className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-[#5048E5] focus:outline-none focus:ring-1 focus:ring-[#5048E5]"
               >
-                {PARTICIPANT_LANGUAGES.map((lang) => (
+                {languageOptions.map((lang) => (
                   <option key={lang.code} value={lang.code}>
                     {lang.label}
                   </option>
                 ))}
               </select>
+              <FieldError message={fieldErrors.preferred_language} />
+              {storedLanguageUnavailable && storedLanguage && (
+                <p className="mt-1 text-xs text-amber-600">
+                  {languageLabel(storedLanguage)}, your language last time, isn&apos;t available in
+                  this session. Please confirm the language above.
+                </p>
+              )}
               <p className="mt-1 text-xs text-gray-500">
                 Transcripts will be translated into this language
               </p>
@@ -203,6 +286,7 @@ function JoinPageContent() {
                 onClick={() => {
                   setStep("code");
                   setMeeting(null);
+                  setChosenLanguage(null);
                 }}
                 className="flex-1 rounded-md border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-50"
               >
@@ -210,7 +294,7 @@ function JoinPageContent() {
               </button>
               <button
                 type="submit"
-                disabled={loading || !name}
+                disabled={loading || !name || !!meeting.is_locked}
                 className="flex-1 rounded-md bg-[#5048E5] px-4 py-2 font-medium text-white hover:bg-[#4338ca] focus:outline-none focus:ring-2 focus:ring-[#5048E5] focus:ring-offset-2 disabled:opacity-50"
               >
                 {loading ? "Joining..." : "Join Session"}
@@ -1,25 +1,38 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { useState, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/lib/auth";
+import { toFormErrors } from "@/lib/errors";
+import FieldError from "@/components/FieldError";
 
-export default function LoginPage() {
+// Only follow same-origin paths so ?redirect= can't send users off-site
+function safeRedirect(target: string | null): string {
+  if (target && target.startsWith("/") && !target.startsWith("//")) return target;
+  return "/dashboard";
+}
+
+function LoginPageContent() {
   const { login, isLoading } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
     try {
       await login(email, password);
-      router.push("/dashboard");
+      router.push(safeRedirect(searchParams.get("redirect")));
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Login failed");
+      const { message, fields } = toFormErrors(err, "Login failed", ["email", "password"]);
+      setError(message);
+      setFieldErrors(fields);
     }
   };
 
@@ -56,6 +69,7 @@ export default function LoginPage() {
               className="mt-1 block w-full rounded-md border border-black px-3 py-2 focus:border-black focus:outline-none focus:ring-1 focus:ring-black"
               placeholder="you@company.com"
             />
+            <FieldError message={fieldErrors.email} />
           </div>
 
           <div>
@@ -74,6 +88,7 @@ export default function LoginPage() {
               className="mt-1 block w-full rounded-md border border-black px-3 py-2 focus:border-black focus:outline-none focus:ring-1 focus:ring-black"
               placeholder="••••••••"
             />
+            <FieldError message={fieldErrors.password} />
           </div>
 
           <button
@@ -98,3 +113,17 @@ export default function LoginPage() {
     </div>
   );
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center bg-white">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-[#5048E5] border-t-transparent" />
+        </div>
+      }
+    >
+      <LoginPageContent />
+    </Suspense>
+  );
+}
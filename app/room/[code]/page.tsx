@@ -1,74 +1,66 @@
 "use client";
 
-import { useEffect, useState, useRef, Suspense } from "react";
+import { use, useEffect, useMemo, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { getMeetingByCode, getAgoraToken, leaveMeeting, getMyCompany, joinMeeting, listParticipants } from "@/lib/api";
 import { useAuth } from "@/lib/auth";
-import { RelayWebSocket } from "@/lib/websocket";
-import type { Meeting, Company, AgoraTokenResponse, TranscriptMessage } from "@/types";
-
-// Dynamic import AgoraRTC to avoid SSR issues
-let AgoraRTC: typeof import("agora-rtc-sdk-ng").default;
-
-async function loadAgoraSDK() {
-  if (!AgoraRTC) {
-    const module = await import("agora-rtc-sdk-ng");
-    AgoraRTC = module.default;
-  }
-  return AgoraRTC;
-}
+import { resolveHostModeration, resolveSttCaptureMode, resolveSttVadConfig } from "@/lib/config";
+import { languageLabel } from "@/lib/languages";
+import { useMeetingSession } from "@/lib/room/useMeetingSession";
+import { useAudioDevices } from "@/lib/room/useAudioDevices";
+import { useAgoraAudio } from "@/lib/room/useAgoraAudio";
+import { useAudioLevel } from "@/lib/room/useAudioLevel";
+import { useTranscriptStream } from "@/lib/room/useTranscriptStream";
+import { useParticipants } from "@/lib/room/useParticipants";
+import { useRelaySocket } from "@/lib/room/useRelaySocket";
+import { useToasts } from "@/lib/toasts";
+import { useTranscriptLanguage } from "@/lib/room/useTranscriptLanguage";
+import { useModeration } from "@/lib/room/useModeration";
+import { readPushToTalk, usePushToTalk } from "@/lib/room/usePushToTalk";
+import { useRoomShortcuts } from "@/lib/room/useRoomShortcuts";
+import { useTranslationSpeech } from "@/lib/room/useTranslationSpeech";
+import { mergePresence, speakerColor } from "@/lib/room/presence";
+import {
+  EMPTY_TRANSCRIPT_FILTER,
+  filterTranscripts,
+  isFilterActive,
+  transcriptSpeakers,
+} from "@/lib/room/transcriptSearch";
+import type { TranscriptFilter } from "@/lib/room/transcriptSearch";
+import { useVirtualList } from "@/lib/room/useVirtualList";
+import type { LiveTranscript } from "@/lib/room/liveTranscripts";
+import { entriesFromLive } from "@/lib/transcriptExport";
+import ConnectionBanner from "@/components/ConnectionBanner";
+import ConnectionIndicator from "@/components/ConnectionIndicator";
+import DeviceCheck from "@/components/DeviceCheck";
+import DeviceSelect from "@/components/DeviceSelect";
+import HighlightedText from "@/components/HighlightedText";
+import MicPermissionHelp from "@/components/MicPermissionHelp";
+import HostControlsPanel from "@/components/HostControlsPanel";
+import NetworkQualityBadge from "@/components/NetworkQualityBadge";
+import SessionEndedSummary from "@/components/SessionEndedSummary";
+import ShortcutHelp from "@/components/ShortcutHelp";
+import ParticipantTile, { initials } from "@/components/ParticipantTile";
+import Toasts from "@/components/Toasts";
+import TranscriptExportMenu from "@/components/TranscriptExportMenu";
+import TranslationSpeechControls from "@/components/TranslationSpeechControls";
+
+const transcriptKey = (t: LiveTranscript) => t.key;
 
 function RoomPageContent({
   params,
 }: {
   params: Promise<{ code: string }>;
 }) {
+  const { code } = use(params);
   const router = useRouter();
   const searchParams = useSearchParams();
   const { user, isLoading: authLoading } = useAuth();
-  const resolvedParams = useRef<{ code: string } | null>(null);
-
-  const [meeting, setMeeting] = useState<Meeting | null>(null);
-  const [company, setCompany] = useState<Company | null>(null);
-  const [tokenData, setTokenData] = useState<AgoraTokenResponse | null>(null);
-  const [participantId, setParticipantId] = useState<string | null>(null);
-  const [isHost, setIsHost] = useState<boolean>(false);
-  const [displayName, setDisplayName] = useState<string>("You");
-  const [remoteUsers, setRemoteUsers] = useState<any[]>([]);
-  const [participants, setParticipants] = useState<any[]>([]);
-  const [transcripts, setTranscripts] = useState<TranscriptMessage[]>([]);
-  const [selectedLanguage, setSelectedLanguage] = useState("en");
-  const [isMuted, setIsMuted] = useState(false);
-  const [audioLevel, setAudioLevel] = useState(0);
-  const [status, setStatus] = useState<"loading" | "connected" | "disconnected">("loading");
-  const [error, setError] = useState<string | null>(null);
-  const [mediaPermission, setMediaPermission] = useState<"pending" | "granted" | "denied">("pending");
-  const isMutedRef = useRef(isMuted);
-
-  const wsRef = useRef<RelayWebSocket | null>(null);
-  const agoraClientRef = useRef<any>(null);
-  const localAudioTrackRef = useRef<any>(null);
-  const localMediaStreamRef = useRef<MediaStream | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const participantIdRef = useRef<string | null>(null);
-  const initialized = useRef(false);
-  const transcriptsEndRef = useRef<HTMLDivElement | null>(null);
-  // Keep a ref of the latest participantId for cleanup logic
-  useEffect(() => {
-    participantIdRef.current = participantId;
-  }, [participantId]);
 
-  useEffect(() => {
-    transcriptsEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [transcripts]);
-  // Resolve params
-  useEffect(() => {
-    params.then((p) => {
-      resolvedParams.current = p;
-    });
-  }, [params]);
+  // The room is only joined once the pre-join device check is done
+  const [devicesChecked, setDevicesChecked] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [filter, setFilter] = useState<TranscriptFilter>(EMPTY_TRANSCRIPT_FILTER);
 
   // Check if user can join without authentication (has valid participantId)
   const participantIdFromUrl = searchParams.get("participantId");
@@ -81,390 +73,129 @@ function RoomPageContent({
     }
   }, [user, authLoading, router, canJoinWithoutAuth]);
 
-  // Initialize meeting + Agora + WebSocket
-  useEffect(() => {
-    // Prevent multiple initializations
-    if (initialized.current) return;
-    initialized.current = true;
-    
-    const init = async () => {
-      const p = await params;
-      const pid = searchParams.get("participantId");
-
-      // Load meeting by code
-      const m = await getMeetingByCode(p.code);
-      setMeeting(m);
-
-      // DEBUG: Log meeting details to help identify channel issues
-      console.log("[Room] Meeting fetched:", { code: p.code, id: m.id, title: m.title, hostName: m.host_name });
-
-      // Fetch participants list (for host to see participant names)
-      try {
-        const participantsList = await listParticipants(m.id);
-        setParticipants(participantsList);
-        console.log("[Room] Participants fetched:", participantsList);
-      } catch (err) {
-        console.warn("[Room] Failed to fetch participants:", err);
-      }
-
-      let participantIdToUse: string;
-
-      if (pid) {
-        // Participant joining via link - use the provided participant ID
-        console.log("[Room] Participant joined with participantId:", pid);
-        participantIdToUse = pid;
-        setParticipantId(pid);
-        setIsHost(false);
-        // Get participant's name from localStorage (stored when they joined)
-        const storedName = localStorage.getItem("relay_participant_name");
-        setDisplayName(storedName || "Participant");
-      } else if (user) {
-        // Host joining from dashboard - create participant automatically
-        console.log("[Room] Host joined (user detected)");
-        // Get company info for host name
-        let hostName = user.email;
-        try {
-          const c = await getMyCompany();
-          setCompany(c);
-          hostName = c.name;
-        } catch {
-          // If we can't get company, use email
-          setCompany({ id: "", name: user.email, email: user.email, is_active: true } as Company);
-        }
-
-        // Create participant automatically for host
-        const participant = await joinMeeting({
-          meeting_id: m.id,
-          name: hostName,
-          preferred_language: "en",
-          is_registered: true,
-        });
-        
-        participantIdToUse = participant.id;
-        setParticipantId(participant.id);
-        setIsHost(true);
-        setDisplayName(hostName);
-      } else {
-        setError("Please log in to start a meeting");
-        return;
-      }
+  const captureConfig = useMemo(
+    () => ({
+      mode: resolveSttCaptureMode(searchParams.get("capture")),
+      vad: resolveSttVadConfig(searchParams.get("vad")),
+    }),
+    [searchParams]
+  );
 
-      try {
-        // Load Agora SDK dynamically (client-side only)
-        const Agora = await loadAgoraSDK();
-        
-        // Request media permissions first
-        setMediaPermission("pending");
-        
-        // Get Agora token
-        const token = await getAgoraToken(m.id, 0, "publisher");
-        
-        // DEBUG: Log token details to help identify channel issues
-        console.log("[Room] Token fetched:", { channel: token.channel, uid: token.uid, appId: token.app_id });
-        
-        setTokenData(token);
-
-        // Create Agora client
-        // Use "rtc" mode for meetings where everyone can speak (not "live" which is for broadcasting)
-        const client = Agora.createClient({
-          mode: "rtc",
-          codec: "vp8",
-        });
-        agoraClientRef.current = client;
-
-        // In rtc mode, everyone can publish/subscribe - no need to set client role
-
-        // Join Agora channel
-        try {
-          console.log("[Room] Joining Agora:", {
-            appId: token.app_id,
-            channel: token.channel,
-            uid: token.uid,
-            isHost: isHost
-          });
-          await client.join(token.app_id, token.channel, token.token, token.uid);
-          console.log("[Room] Successfully joined channel:", token.channel);
-        } catch (e) {
-          console.error("Failed to join channel:", e);
-          setError("Failed to join meeting. Please try again.");
-          return;
-        }
-
-        // Create and publish local audio track only (audio-only meeting)
-        try {
-          const audioTrack = await Agora.createMicrophoneAudioTrack({
-            AEC: true,  // Acoustic Echo Cancellation
-            AGC: true,  // Automatic Gain Control
-            ANS: true,  // Automatic Noise Suppression
-          });
-          
-          localAudioTrackRef.current = audioTrack;
-          
-          // Publish local audio track to channel (don't play locally - causes echo)
-          await client.publish(audioTrack);
-          
-          // Set up Web Audio API for real-time audio level monitoring
-          // Use the same media stream from Agora's audio track so visualization
-          // works even if browser-level getUserMedia for STT fails.
-          try {
-            const mediaStreamTrack = audioTrack.getMediaStreamTrack();
-            const agoraMediaStream = new MediaStream([mediaStreamTrack]);
-
-            const AudioCtx =
-              (window as any).AudioContext || (window as any).webkitAudioContext;
-            const audioContext = new AudioCtx();
-
-            if (audioContext.state === "suspended") {
-              await audioContext.resume();
-            }
-
-            const source = audioContext.createMediaStreamSource(agoraMediaStream);
-            const analyser = audioContext.createAnalyser();
-            analyser.fftSize = 256;
-            source.connect(analyser);
-            audioContextRef.current = audioContext;
-            analyserRef.current = analyser;
-          } catch (vizErr) {
-            console.error("Failed to set up audio visualization:", vizErr);
-          }
-
-          // Also (optionally) capture audio for WebSocket STT processing
-          try {
-            // Get local media stream for WebSocket audio transmission
-            const mediaStream = await navigator.mediaDevices.getUserMedia({
-              audio: {
-                echoCancellation: true,
-                noiseSuppression: true,
-                autoGainControl: true,
-              },
-            });
-            localMediaStreamRef.current = mediaStream;
-            
-            // Create MediaRecorder to capture audio chunks
-            const mediaRecorder = new MediaRecorder(mediaStream, {
-              mimeType: "audio/webm;codecs=opus",
-            });
-            mediaRecorder.ondataavailable = async (event) => {
-              if (event.data.size > 0 && wsRef.current?.isConnected) {
-                const arrayBuffer = await event.data.arrayBuffer();
-                wsRef.current.sendAudioChunk(arrayBuffer);
-              }
-            };
-            
-            // Collect audio data every 2 seconds
-            mediaRecorder.start(2000);
-            mediaRecorderRef.current = mediaRecorder;
-          } catch (captureErr) {
-            console.error("Failed to set up audio capture for STT:", captureErr);
-            // Continue anyway - STT won't work but meeting can continue
-          }
-          
-          setMediaPermission("granted");
-        } catch (mediaErr) {
-          console.error("Failed to get microphone:", mediaErr);
-          setMediaPermission("denied");
-          // Continue without media - user can still see others
-        }
-
-        // Handle remote users joining
-        client.on("user-published", async (remoteUser, mediaType) => {
-          console.log("[Room] Remote user published:", { uid: remoteUser.uid, mediaType });
-          try {
-            await client.subscribe(remoteUser, mediaType);
-            
-            if (mediaType === "audio") {
-              const remoteAudioTrack = remoteUser.audioTrack;
-              if (remoteAudioTrack) {
-                remoteAudioTrack.play();
-              }
-            }
-            
-            // Add to remote users list
-            setRemoteUsers((prev) => {
-              if (prev.find((u) => u.uid === remoteUser.uid)) return prev;
-              return [...prev, remoteUser];
-            });
-          } catch (err) {
-            console.warn("Failed to subscribe to remote user:", err);
-          }
-        });
-
-        // Handle remote users leaving
-        client.on("user-left", (remoteUser) => {
-          console.log("[Room] Remote user left:", { uid: remoteUser.uid });
-          setRemoteUsers((prev) => prev.filter((u) => u.uid !== remoteUser.uid));
-        });
-
-        // Connect WebSocket for transcripts
-        const ws = new RelayWebSocket(
-          m.id,
-          participantIdToUse,
-          (msg) => {
-            setTranscripts((prev) => [...prev, msg]);
-          },
-          (s) => {
-            if (s === "open") setStatus("connected");
-            else if (s === "closed") setStatus("disconnected");
-          }
-        );
-        ws.connect();
-        wsRef.current = ws;
-
-        setStatus("connected");
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to join meeting");
-      }
-    };
-
-    init();
-
-    // Audio level monitoring - use Web Audio API analyser for local mic
-    isMutedRef.current = isMuted;
-    let isMounted = true;
-    const audioLevelInterval = setInterval(() => {
-      isMutedRef.current = isMuted;
-      
-      if (!isMounted) return;
-      
-      try {
-        if (audioContextRef.current && !isMutedRef.current) {
-          // Get real-time audio data from the microphone using Agora track
-          if (localAudioTrackRef.current) {
-            // Try to get volume directly from Agora track
-            try {
-              const volume = localAudioTrackRef.current.getVolumeLevel();
-              if (typeof volume === 'number' && volume > 0) {
-                const calculatedVolume = Math.min(100, Math.round(volume * 100 * 3));
-                console.log("Audio level from Agora:", { volume, calculatedVolume });
-                setAudioLevel(calculatedVolume);
-                return;
-              }
-            } catch (e) {
-              // getVolumeLevel not available, try analyser
-            }
-          }
-          
-          // Fallback: use Web Audio API analyser
-          if (analyserRef.current) {
-            const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-            analyserRef.current.getByteFrequencyData(dataArray);
-            
-            // Calculate average volume from frequency data
-            const average = dataArray.reduce((a, b) => a + b, 0) / dataArray.length;
-            const volume = Math.min(100, Math.round((average / 255) * 100 * 2));
-            console.log("Audio level from analyser:", { average, volume });
-            setAudioLevel(volume);
-          } else {
-            setAudioLevel(0);
-          }
-        } else {
-          setAudioLevel(0);
-        }
-      } catch (e) {
-        console.error("Audio level error:", e);
-        setAudioLevel(0);
-      }
-    }, 100);
-
-    return () => {
-      isMounted = false;
-      clearInterval(audioLevelInterval);
-      
-      // Stop MediaRecorder and release media stream
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
-        mediaRecorderRef.current.stop();
-      }
-      if (localMediaStreamRef.current) {
-        localMediaStreamRef.current.getTracks().forEach((track) => track.stop());
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
-      
-      // Cleanup: disconnect WebSocket and leave Agora
-      if (wsRef.current) {
-        wsRef.current.disconnect();
-      }
-      
-      // Leave Agora channel
-      if (agoraClientRef.current) {
-        const client = agoraClientRef.current;
-        if (localAudioTrackRef.current) {
-          localAudioTrackRef.current.stop();
-          localAudioTrackRef.current.close();
-        }
-        // Try to leave, but don't fail if already left
-        client.leave().catch(() => {
-          // Ignore errors when leaving - may already be disconnected
-        });
-      }
-      
-      // Leave meeting via API if we have a participantId
-      const latestParticipantId = participantIdRef.current;
-      if (latestParticipantId) {
-        leaveMeeting(latestParticipantId).catch(() => {
-          // Ignore errors when leaving meeting
-        });
-      }
-      
-      // For cleanup (page unload), we can't redirect - just clean up
-      // The redirect on intentional leave is handled in handleLeave
-    };
-  }, [params, searchParams, user]);
+  const { toasts, push: toast, dismiss: dismissToast } = useToasts();
+  const devices = useAudioDevices({
+    onDeviceLost: (kind, device) =>
+      toast(
+        `${device.label} was disconnected. Switched to the default ${kind === "audioinput" ? "microphone" : "speaker"}.`,
+        "warning"
+      ),
+  });
+
+  // Wait for the stored auth session so hosts aren't treated as anonymous
+  const { session, error: sessionError, needsRejoin, endedMeeting, leave } = useMeetingSession(code, {
+    participantId: participantIdFromUrl,
+    user,
+    enabled: !authLoading && devicesChecked,
+  });
+  const agora = useAgoraAudio(session, {
+    micId: devices.micId,
+    speakerId: devices.speakerId,
+    startMuted: !!session && readPushToTalk(session.participantId),
+  });
+  const { isMuted, mediaPermission, remoteUsers } = agora;
+  const audioLevel = useAudioLevel(agora.localTrack, isMuted, agora.micId);
+  const socket = useRelaySocket(session);
+  const { participants } = useParticipants(session?.meeting.id ?? null, socket, {
+    onJoined: (p) => {
+      if (p.id !== session?.participantId) toast(`${p.name} joined`, "success");
+    },
+    onLeft: (p) => {
+      if (p.id !== session?.participantId) toast(`${p.name} left`);
+    },
+  });
+  const hostActions = useMemo(() => resolveHostModeration(searchParams.get("moderation")), [searchParams]);
+  const moderation = useModeration(session, socket, {
+    hostActions,
+    onForceMuted: () => {
+      void agora.setMuted(true);
+      toast("The host muted your microphone", "warning");
+    },
+    onRemoved: (p) => toast(`${p.name} was removed by the host`),
+    onLockChanged: (locked) =>
+      toast(locked ? "The room is locked to new joiners" : "The room is open to new joiners"),
+  });
+  const {
+    language: selectedLanguage,
+    options: languageOptions,
+    unavailablePreference,
+    setLanguage,
+  } = useTranscriptLanguage(session, participants);
+  const stream = useTranscriptStream(session, socket, {
+    track: agora.localTrack,
+    deviceId: agora.micId,
+    muted: isMuted,
+    language: selectedLanguage,
+    capture: captureConfig,
+  });
+  const { transcripts, connection, droppedAudio } = stream;
+  const pushToTalk = usePushToTalk(session, { setMuted: agora.setMuted });
+  const speech = useTranslationSpeech(session, {
+    transcripts,
+    language: selectedLanguage,
+    setRemoteVolume: agora.setRemoteVolume,
+  });
+
+  const participantId = session?.participantId ?? null;
+  const isHost = session?.isHost ?? false;
+  const displayName = session?.displayName ?? "You";
+  const error = sessionError ?? agora.error;
+
+  const owner = useMemo(
+    () => ({
+      name: session?.meeting.host_name ?? null,
+      isSelf: !!session?.company?.id && session.company.id === session.meeting.company_id,
+    }),
+    [session]
+  );
+  const presence = useMemo(
+    () => mergePresence(participants, remoteUsers, participantId, owner, agora.speakers, agora.networkQuality),
+    [participants, remoteUsers, participantId, owner, agora.speakers, agora.networkQuality]
+  );
+  // Transcripts carry the speaker's participant id; match them to tiles
+  const presenceById = useMemo(
+    () => new Map(presence.map((p) => [p.participantId, p])),
+    [presence]
+  );
+  const exportEntries = useMemo(() => entriesFromLive(transcripts), [transcripts]);
+  const self = presence.find((p) => p.isSelf);
+  const others = presence.filter((p) => !p.isSelf);
+
+  const filtering = isFilterActive(filter);
+  const shownTranscripts = useMemo(
+    () => filterTranscripts(transcripts, filter, selectedLanguage),
+    [transcripts, filter, selectedLanguage]
+  );
+  const transcriptSpeakerOptions = useMemo(() => transcriptSpeakers(transcripts), [transcripts]);
+  const {
+    containerRef: transcriptListRef,
+    measureRef: transcriptItemRef,
+    ...transcriptList
+  } = useVirtualList(shownTranscripts, { getKey: transcriptKey });
+  const jumpToLatest = transcriptList.jumpToLatest;
+
+  const cycleLanguage = (step: number) => {
+    if (languageOptions.length === 0) return;
+    const index = languageOptions.findIndex((l) => l.code === selectedLanguage);
+    const next = (index + step + languageOptions.length) % languageOptions.length;
+    setLanguage(languageOptions[next].code);
+  };
 
   const toggleMute = async () => {
-    if (localAudioTrackRef.current) {
-      if (isMuted) {
-        await localAudioTrackRef.current.setEnabled(true);
-        isMutedRef.current = false;
-        setIsMuted(false);
-      } else {
-        await localAudioTrackRef.current.setEnabled(false);
-        isMutedRef.current = true;
-        setIsMuted(true);
-      }
-    }
+    await agora.setMuted(!isMuted);
   };
 
   const handleLeave = async () => {
-    // Stop MediaRecorder and release media stream
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
-      mediaRecorderRef.current.stop();
-    }
-    if (localMediaStreamRef.current) {
-      localMediaStreamRef.current.getTracks().forEach((track) => track.stop());
-    }
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-    
-    // Disconnect WebSocket
-    if (wsRef.current) {
-      wsRef.current.disconnect();
-    }
-    
-    // Leave Agora
-    if (agoraClientRef.current) {
-      if (localAudioTrackRef.current) {
-        localAudioTrackRef.current.stop();
-        localAudioTrackRef.current.close();
-      }
-      // Try to leave, ignore errors
-      await agoraClientRef.current.leave().catch(() => {});
-    }
-    
-    // Leave meeting via API
-    const latestParticipantId = participantIdRef.current;
-    if (latestParticipantId) {
-      try {
-        await leaveMeeting(latestParticipantId);
-      } catch {
-        // Ignore errors on leave
-      }
-    }
-    
+    await leave();
+
     // Redirect based on user type
     // Host goes to dashboard, participants go back to join page
     if (isHost) {
@@ -474,6 +205,27 @@ function RoomPageContent({
     }
   };
 
+  useRoomShortcuts(
+    {
+      // Space only means "talk" in push-to-talk mode; M is the toggle otherwise
+      pushToTalk: pushToTalk.enabled ? pushToTalk.hold : undefined,
+      toggleMute: pushToTalk.enabled ? undefined : toggleMute,
+      togglePushToTalk: () => pushToTalk.setEnabled(!pushToTalk.enabled),
+      nextLanguage: () => cycleLanguage(1),
+      previousLanguage: () => cycleLanguage(-1),
+      jumpToLatest,
+      leave: () => {
+        if (confirm("Leave the session?")) void handleLeave();
+      },
+      help: () => setShowShortcuts((v) => !v),
+      dismiss: () => {
+        setShowShortcuts(false);
+        setShowDevices(false);
+      },
+    },
+    !!session && !moderation.exit
+  );
+
   if (authLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-gray-100">
@@ -482,36 +234,93 @@ function RoomPageContent({
     );
   }
 
-  if (error) {
+  if (!devicesChecked && (user || canJoinWithoutAuth)) {
+    return <DeviceCheck code={code} devices={devices} onJoin={() => setDevicesChecked(true)} />;
+  }
+
+  // VAD decides when we're talking; without it, any mic level counts
+  const speaking = stream.vadActive ? stream.isSpeaking : audioLevel > 0;
+
+  // Signed-in hosts have no session yet when the meeting had already ended
+  const hostView = session ? isHost : !participantIdFromUrl && !!user;
+  const exitTo = () => router.push(hostView ? "/dashboard" : "/join");
+
+  // Ended before we got here (e.g. a reload): nothing was joined
+  if (endedMeeting) {
+    return (
+      <SessionEndedSummary
+        meeting={endedMeeting}
+        headline="This session has already ended."
+        endedAt={endedMeeting.ended_at ?? null}
+        isHost={hostView}
+        transcripts={[]}
+        language={null}
+        onDone={exitTo}
+      />
+    );
+  }
+
+  // Closed on us: everything is already released, just say why
+  if (session && moderation.exit?.reason === "ended") {
+    return (
+      <SessionEndedSummary
+        meeting={session.meeting}
+        headline={isHost ? "You ended the session for everyone." : "The host ended this session."}
+        endedAt={moderation.exit.at}
+        isHost={isHost}
+        transcripts={transcripts}
+        language={selectedLanguage}
+        onDone={exitTo}
+      />
+    );
+  }
+
+  if (moderation.exit?.reason === "removed") {
     return (
       <div className="flex min-h-screen items-center justify-center bg-gray-100">
-        <div className="rounded-lg bg-red-50 p-6 text-red-600">
-          <p className="font-medium">Error: {error}</p>
+        <div className="max-w-md rounded-lg bg-white p-6 text-center shadow-md">
+          <p className="font-medium">The host removed you from this session</p>
           <button
-            onClick={() => router.push("/dashboard")}
-            className="mt-4 text-sm underline"
+            onClick={exitTo}
+            className="mt-4 rounded-md bg-[#5048E5] px-4 py-2 text-sm text-white"
           >
-            Go back
+            Done
           </button>
         </div>
       </div>
     );
   }
 
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-100">
+        <div className="rounded-lg bg-red-50 p-6 text-red-600">
+          <p className="font-medium">Error: {error}</p>
+          {needsRejoin ? (
+            <button
+              onClick={() => router.push(`/join?code=${encodeURIComponent(code)}`)}
+              className="mt-4 rounded-md bg-[#5048E5] px-4 py-2 text-sm text-white"
+            >
+              Join again
+            </button>
+          ) : (
+            <button
+              onClick={() => router.push("/dashboard")}
+              className="mt-4 text-sm underline"
+            >
+              Go back
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (mediaPermission === "denied") {
     return (
       <div className="flex min-h-screen items-center justify-center bg-gray-100">
-        <div className="rounded-lg bg-yellow-50 p-6 text-yellow-600 max-w-md">
-          <p className="font-medium">Microphone Access Required</p>
-          <p className="mt-2 text-sm">
-            Please allow access to your microphone to join the meeting.
-          </p>
-          <button
-            onClick={() => window.location.reload()}
-            className="mt-4 rounded-md bg-[#5048E5] px-4 py-2 text-white"
-          >
-            Try Again
-          </button>
+        <div className="max-w-md">
+          <MicPermissionHelp failure={agora.micFailure ?? "denied"} onRetry={() => window.location.reload()} />
         </div>
       </div>
     );
@@ -519,7 +328,15 @@ function RoomPageContent({
 
   return (
 <div className="flex h-screen bg-gray-100 text-black flex-col md:flex-row">      {/* Left panel — Host / Audio */}
-<div className="flex flex-col md:flex-1 h-auto md:h-full">        {/* Audio area */}
+<div className="flex flex-col md:flex-1 h-auto md:h-full">
+        <ConnectionBanner
+          voiceStatus={agora.voiceStatus}
+          agoraState={agora.connectionState}
+          socket={connection}
+          onRejoin={agora.rejoin}
+          onRetrySocket={stream.retryNow}
+        />
+        {/* Audio area */}
         <div className="p-2 md:p-4 md:flex-1">
         <div className="grid grid-cols-2 gap-2 md:gap-4 md:h-full">
             {/* LEFT: Host panel - shows the host or self */}
@@ -559,7 +376,7 @@ function RoomPageContent({
                       className={`h-20 w-20 rounded-full flex items-center justify-center text-3xl border-4 ${
                         isMuted
                           ? "border-red-500 bg-red-100"
-                          : audioLevel > 0
+                          : speaking
                           ? "border-blue-500 bg-blue-100 animate-pulse"
                           : "border-blue-500 bg-white"
                       }`}
@@ -568,10 +385,13 @@ function RoomPageContent({
                         {isMuted ? "🔴" : "🎤"}
                       </span>
                     </div>
-                    <div className="mt-4 rounded bg-gray-300 px-2 py-1 text-xs">
-                      {displayName} {isHost && "(Host)"} {isMuted && "(Muted)"}
+                    <div className="mt-4 flex items-center gap-2 rounded bg-gray-300 px-2 py-1 text-xs">
+                      <span>
+                        {displayName} {isHost && "(Host)"} {isMuted && "(Muted)"}
+                      </span>
+                      <NetworkQualityBadge quality={self?.network ?? null} />
                     </div>
-                    {audioLevel > 0 && !isMuted && (
+                    {speaking && !isMuted && (
                       <div className="mt-3 text-sm font-medium text-[#5048E5] animate-pulse">
                         🎙️ Speaking... {audioLevel}%
                       </div>
@@ -582,65 +402,92 @@ function RoomPageContent({
             </div>
             {/* RIGHT: Participants panel - shows other participants */}
             <div className="rounded-lg bg-gray-200 flex flex-col items-center justify-center">
-              <div className="text-xs text-gray-500 mb-2">PARTICIPANTS</div>
-              {remoteUsers.length === 0 && participants.length <= 1 ? (
+              <div className="text-xs text-gray-500 mb-2">
+                PARTICIPANTS{presence.length > 0 && ` · ${presence.length}`}
+                {moderation.locked && <span className="ml-2 text-amber-600">🔒 LOCKED</span>}
+              </div>
+              {others.length === 0 ? (
                 <div className="text-gray-500">
                   Waiting for participants...
                 </div>
               ) : (
                 <div className="flex flex-wrap gap-4 justify-center">
-                  {/* Show other participants (excluding self) */}
-                  {participants
-                    .filter((p) => p.id !== participantId)
-                    .map((p) => (
-                      <div key={p.id} className="flex flex-col items-center">
-                        <div className="h-12 w-12 md:h-20 md:w-20 rounded-full bg-white border-4 border-[#5048E5] flex items-center justify-center text-3xl">
-                          🎤
-                        </div>
-                        <div className="mt-2 text-xs">{p.name}</div>
-                      </div>
-                    ))}
-                  {/* Show remote Agora users */}
-                  {remoteUsers.map((u) => (
-                    <div key={u.uid} className="flex flex-col items-center">
-                      <div className="h-12 w-12 md:h-20 md:w-20 rounded-full bg-white border-4 border-[#5048E5] flex items-center justify-center text-3xl">
-                        🎤
-                      </div>
-                      <div className="mt-2 text-xs">Participant</div>
-                    </div>
+                  {others.map((entry) => (
+                    <ParticipantTile key={entry.key} entry={entry} />
                   ))}
                 </div>
               )}
-              {/* Show host to participants */}
-              {!isHost && meeting?.host_name && (
-                <div className="mt-4 flex flex-col items-center">
-                  <div className="h-12 w-12 md:h-20 md:w-20 rounded-full bg-white border-4 border-[#5048E5] flex items-center justify-center text-3xl">
-                    🎤
-                  </div>
-                  <div className="mt-2 text-xs">{meeting.host_name} (Host)</div>
-                </div>
-              )}
             </div>
           </div>
         </div>
 
         {/* Toolbar */}
         <div className="flex items-center justify-center gap-4 p-4">
+          {pushToTalk.enabled ? (
+            <button
+              onPointerDown={() => pushToTalk.hold(true)}
+              onPointerUp={() => pushToTalk.hold(false)}
+              onPointerLeave={() => pushToTalk.hold(false)}
+              className={`flex h-12 select-none items-center justify-center rounded-full px-5 text-sm text-white ${
+                pushToTalk.holding ? "bg-blue-500" : "bg-gray-500"
+              }`}
+            >
+              {pushToTalk.holding ? "🎤 Talking..." : "Hold to talk"}
+            </button>
+          ) : (
+            <button
+              onClick={toggleMute}
+              className={`flex h-12 w-12 items-center justify-center rounded-full ${
+                isMuted ? "bg-red-500" : "bg-blue-500"
+              } text-white hover:opacity-80`}
+            >
+              <span className="text-xl">{isMuted ? "🔴" : "🎤"}</span>
+            </button>
+          )}
           <button
-            onClick={toggleMute}
-            className={`flex h-12 w-12 items-center justify-center rounded-full ${
-              isMuted ? "bg-red-500" : "bg-blue-500"
-            } text-white hover:opacity-80`}
+            onClick={() => pushToTalk.setEnabled(!pushToTalk.enabled)}
+            aria-pressed={pushToTalk.enabled}
+            title="Push-to-talk (P)"
+            className={`flex h-12 items-center justify-center rounded-full px-4 text-sm hover:opacity-80 ${
+              pushToTalk.enabled ? "bg-[#5048E5] text-white" : "bg-gray-300"
+            }`}
           >
-            <span className="text-xl">{isMuted ? "🔴" : "🎤"}</span>
+            PTT
           </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowDevices((v) => !v)}
+              aria-label="Audio devices"
+              aria-expanded={showDevices}
+              className="flex h-12 w-12 items-center justify-center rounded-full bg-gray-300 hover:opacity-80"
+            >
+              <span className="text-xl">⚙️</span>
+            </button>
+            {showDevices && (
+              <div className="absolute bottom-14 left-1/2 z-10 w-72 -translate-x-1/2 rounded-lg bg-white p-4 shadow-lg">
+                <DeviceSelect devices={devices} />
+              </div>
+            )}
+          </div>
           <button
             onClick={handleLeave}
             className="flex h-12 items-center justify-center rounded-full bg-red-500 px-6 text-white hover:opacity-80"
           >
             Leave
           </button>
+          <button
+            onClick={() => setShowShortcuts(true)}
+            aria-label="Keyboard shortcuts"
+            title="Keyboard shortcuts (?)"
+            className="flex h-12 w-12 items-center justify-center rounded-full bg-gray-300 text-lg hover:opacity-80"
+          >
+            ?
+          </button>
         </div>
+
+        {moderation.host && (
+          <HostControlsPanel controls={moderation.host} participants={others} locked={moderation.locked} />
+        )}
       </div>
 
       {/* Right panel — Transcripts */}
@@ -649,54 +496,160 @@ function RoomPageContent({
         <div className="border-b border-gray-300 p-4">
           <div className="flex items-center justify-between">
             <h2 className="font-semibold">Live Transcripts</h2>
-            <select
-              value={selectedLanguage}
-              onChange={(e) => setSelectedLanguage(e.target.value)}
-              className="rounded border border-gray-300 px-2 py-1 text-sm"
-            >
-              <option value="en">English</option>
-              <option value="fr">French</option>
-              <option value="es">Spanish</option>
-            </select>
-          </div>
-          <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
-            <span
-              className={`h-2 w-2 rounded-full ${
-                status === "connected" ? "bg-green-500" : "bg-yellow-500"
-              }`}
-            />
-            {status === "connected" ? "Connected" : "Connecting..."}
+            <div className="flex items-center gap-2">
+              {session && (
+                <TranscriptExportMenu
+                  meeting={session.meeting}
+                  entries={exportEntries}
+                  languages={languageOptions.map((l) => l.code)}
+                  defaultLanguage={selectedLanguage}
+                />
+              )}
+              <select
+                value={selectedLanguage ?? ""}
+                onChange={(e) => setLanguage(e.target.value)}
+                disabled={!selectedLanguage}
+                aria-label="Transcript language"
+                className="rounded border border-gray-300 px-2 py-1 text-sm"
+              >
+                {languageOptions.map((lang) => (
+                  <option key={lang.code} value={lang.code}>
+                    {lang.label}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
+          {unavailablePreference && (
+            <p className="mt-1 text-xs text-amber-600">
+              {languageLabel(unavailablePreference)} isn&apos;t offered in this session.
+            </p>
+          )}
+          {selectedLanguage && (
+            <TranslationSpeechControls speech={speech} languageLabel={languageLabel(selectedLanguage)} />
+          )}
+          <ConnectionIndicator
+            state={connection}
+            onRetry={stream.retryNow}
+          />
+          {droppedAudio && (
+            <p className="mt-1 text-xs text-amber-600">
+              {droppedAudio.droppedMs > 0
+                ? `${Math.round(droppedAudio.droppedMs / 1000)}s`
+                : `${droppedAudio.droppedChunks} chunks`}{" "}
+              of audio could not be transcribed during a reconnect.
+            </p>
+          )}
         </div>
 
-        {/* Transcript list */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          {transcripts.length === 0 ? (
-            <p className="text-center text-sm text-gray-500">
-              Transcripts will appear here...
-            </p>
-          ) : (
-            transcripts.map((t, i) => (
-              <div key={i} className="rounded-lg bg-gray-200 p-3">
-                <div className="flex items-center justify-between mb-1">
-                  <span className="font-medium text-black">{t.speaker_name}</span>
-                  <span className="text-xs text-gray-500">
-                    {new Date(t.timestamp).toLocaleTimeString()}
-                  </span>
-                </div>
-                <p className="text-sm text-gray-700">{t.original_text}</p>
-                {t.translations?.[selectedLanguage] && (
-                  <p className="mt-1 text-sm font-medium text-black">
-                    {t.translations?.[selectedLanguage]}
-                  </p>
-                )}
+        {/* Search and speaker filter */}
+        {transcripts.length > 0 && (
+          <div className="border-b border-gray-300 px-4 py-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="search"
+                value={filter.query}
+                onChange={(e) => setFilter((f) => ({ ...f, query: e.target.value }))}
+                placeholder="Search transcript"
+                aria-label="Search transcript"
+                className="min-w-0 flex-1 rounded border border-gray-300 px-2 py-1 text-sm"
+              />
+              <select
+                value={filter.speakerId ?? ""}
+                onChange={(e) => setFilter((f) => ({ ...f, speakerId: e.target.value || null }))}
+                aria-label="Filter by speaker"
+                className="max-w-[40%] rounded border border-gray-300 px-2 py-1 text-sm"
+              >
+                <option value="">All speakers</option>
+                {transcriptSpeakerOptions.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.id === participantId ? `${s.name} (you)` : s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {filtering && (
+              <p className="mt-1 flex items-center justify-between text-xs text-gray-500">
+                <span>
+                  {shownTranscripts.length} of {transcripts.length} caption{transcripts.length === 1 ? "" : "s"}
+                </span>
+                <button onClick={() => setFilter(EMPTY_TRANSCRIPT_FILTER)} className="text-[#5048E5] hover:underline">
+                  Clear
+                </button>
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Transcript list — only the captions near the viewport are rendered */}
+        <div className="relative flex min-h-0 flex-1 flex-col">
+          <div
+            ref={transcriptListRef}
+            onScroll={transcriptList.onScroll}
+            className="flex-1 overflow-y-auto px-4 pb-4"
+          >
+            {shownTranscripts.length === 0 ? (
+              <p className="py-4 text-center text-sm text-gray-500">
+                {filtering ? "No captions match." : "Transcripts will appear here..."}
+              </p>
+            ) : (
+              <div style={{ paddingTop: transcriptList.paddingTop, paddingBottom: transcriptList.paddingBottom }}>
+                {transcriptList.visible.map(({ item: t, key }) => {
+                  const speaker = presenceById.get(t.speaker_id);
+                  const color = speaker?.color ?? speakerColor(t.speaker_id);
+                  return (
+                    <div key={key} data-key={key} ref={transcriptItemRef} className="pt-4">
+                      <div
+                        className={`rounded-lg border-l-4 p-3 ${t.isFinal ? "bg-gray-200" : "bg-gray-100"}`}
+                        style={{ borderLeftColor: color }}
+                        aria-live={t.isFinal ? undefined : "polite"}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="flex items-center gap-2 font-medium text-black">
+                            <span
+                              className={`flex h-6 w-6 items-center justify-center rounded-full text-[10px] font-semibold text-white ${
+                                speaker?.isActiveSpeaker ? "animate-pulse" : ""
+                              }`}
+                              style={{ backgroundColor: color }}
+                            >
+                              {initials(speaker?.name ?? t.speaker_name)}
+                            </span>
+                            {t.speaker_name}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {t.isFinal ? new Date(t.timestamp).toLocaleTimeString() : "speaking..."}
+                          </span>
+                        </div>
+                        <p className={`text-sm ${t.isFinal ? "text-gray-700" : "italic text-gray-500"}`}>
+                          <HighlightedText text={t.original_text} query={filter.query} />
+                          {!t.isFinal && <span className="ml-0.5 animate-pulse">▍</span>}
+                        </p>
+                        {selectedLanguage && t.translations?.[selectedLanguage] && (
+                          <p className="mt-1 text-sm font-medium text-black">
+                            <HighlightedText text={t.translations[selectedLanguage]} query={filter.query} />
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
-            ))
-            
+            )}
+          </div>
+          {!transcriptList.following && (
+            <button
+              onClick={transcriptList.jumpToLatest}
+              className="absolute bottom-4 left-1/2 -translate-x-1/2 rounded-full bg-[#5048E5] px-4 py-1.5 text-sm font-medium text-white shadow-lg hover:opacity-90"
+            >
+              ↓ Jump to latest
+              {transcriptList.unseen > 0 && ` (${transcriptList.unseen} new)`}
+            </button>
           )}
-          <div ref={transcriptsEndRef} />
         </div>
       </div>
+
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
     </div>
   );
 }
@@ -4,6 +4,8 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/lib/auth";
+import { toFormErrors } from "@/lib/errors";
+import FieldError from "@/components/FieldError";
 
 export default function SignupPage() {
   const { register, isLoading } = useAuth();
@@ -13,10 +15,12 @@ export default function SignupPage() {
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setFieldErrors({});
 
     if (password !== confirmPassword) {
       setError("Passwords do not match");
@@ -32,7 +36,13 @@ export default function SignupPage() {
       await register(name, email, password);
       router.push("/dashboard");
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Registration failed");
+      const { message, fields } = toFormErrors(err, "Registration failed", [
+        "name",
+        "email",
+        "password",
+      ]);
+      setError(message);
+      setFieldErrors(fields);
     }
   };
 
@@ -69,6 +79,7 @@ export default function SignupPage() {
               className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-[#5048E5] focus:outline-none focus:ring-1 focus:ring-[#5048E5]"
               placeholder="Acme Inc."
             />
+            <FieldError message={fieldErrors.name} />
           </div>
 
           <div>
@@ -87,6 +98,7 @@ export default function SignupPage() {
               className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-[#5048E5] focus:outline-none focus:ring-1 focus:ring-[#5048E5]"
               placeholder="you@company.com"
             />
+            <FieldError message={fieldErrors.email} />
           </div>
 
           <div>
@@ -105,6 +117,7 @@ export default function SignupPage() {
               className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-[#5048E5] focus:outline-none focus:ring-1 focus:ring-[#5048E5]"
               placeholder="••••••••"
             />
+            <FieldError message={fieldErrors.password} />
           </div>
 
           <div>
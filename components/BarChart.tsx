@@ -0,0 +1,58 @@
+interface BarChartDatum {
+  label: string;
+  value: number;
+  hint?: string;
+}
+
+interface BarChartProps {
+  title: string;
+  data: BarChartDatum[];
+  emptyLabel?: string;
+  formatValue?: (value: number) => string;
+}
+
+/**
+ * Horizontal bar chart rendered with plain Tailwind — no charting dependency.
+ * Bars are scaled relative to the largest value in `data`.
+ */
+export default function BarChart({
+  title,
+  data,
+  emptyLabel = "No data yet.",
+  formatValue = (value) => value.toLocaleString(),
+}: BarChartProps) {
+  const max = Math.max(0, ...data.map((d) => d.value));
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4">
+      <h3 className="text-xs font-medium uppercase tracking-wide text-slate-500">
+        {title}
+      </h3>
+      {data.length === 0 || max === 0 ? (
+        <p className="mt-4 text-xs text-slate-400">{emptyLabel}</p>
+      ) : (
+        <ul className="mt-3 space-y-2">
+          {data.map((d) => (
+            <li key={d.label} className="text-xs">
+              <div className="mb-1 flex items-center justify-between text-slate-600">
+                <span>
+                  {d.label}
+                  {d.hint && <span className="ml-1 text-slate-400">{d.hint}</span>}
+                </span>
+                <span className="font-medium text-slate-900">
+                  {formatValue(d.value)}
+                </span>
+              </div>
+              <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+                <div
+                  className="h-full rounded-full bg-violet-500"
+                  style={{ width: `${(d.value / max) * 100}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { ConnectionState as AgoraConnectionState } from "agora-rtc-sdk-ng";
+import type { VoiceStatus } from "@/lib/room/useAgoraAudio";
+import type { ConnectionState } from "@/lib/websocket";
+
+interface ConnectionBannerProps {
+  voiceStatus: VoiceStatus;
+  agoraState: AgoraConnectionState;
+  socket: ConnectionState | null;
+  onRejoin: () => void;
+  onRetrySocket: () => void;
+}
+
+/**
+ * One banner for both links the room depends on: the Agora voice channel
+ * and the transcript socket. Shown while either is reconnecting, and with a
+ * manual retry once one of them has given up. Nothing is shown while both
+ * are fine or a token is being renewed quietly.
+ */
+export default function ConnectionBanner({
+  voiceStatus,
+  agoraState,
+  socket,
+  onRejoin,
+  onRetrySocket,
+}: ConnectionBannerProps) {
+  const voiceLost = voiceStatus === "disconnected";
+  const socketLost = socket?.phase === "failed";
+
+  if (voiceLost || socketLost) {
+    return (
+      <div className="mx-2 mt-2 flex items-center justify-between gap-2 rounded-md bg-red-50 px-3 py-2 text-sm text-red-600 md:mx-4">
+        <span>
+          {voiceLost && socketLost
+            ? "Connection lost: audio and live transcripts are disconnected."
+            : voiceLost
+            ? "Audio disconnected: the voice channel could not be rejoined."
+            : "Live transcripts disconnected."}
+        </span>
+        <button
+          onClick={() => {
+            if (voiceLost) onRejoin();
+            if (socketLost) onRetrySocket();
+          }}
+          className="shrink-0 rounded-md bg-red-500 px-3 py-1 text-white hover:opacity-80"
+        >
+          Reconnect
+        </button>
+      </div>
+    );
+  }
+
+  const voiceReconnecting = agoraState === "RECONNECTING" || voiceStatus === "rejoining";
+  const socketReconnecting = socket?.phase === "reconnecting";
+
+  if (voiceReconnecting || socketReconnecting) {
+    return (
+      <div className="mx-2 mt-2 flex items-center gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-700 md:mx-4">
+        <span className="h-3 w-3 animate-spin rounded-full border-2 border-amber-500 border-t-transparent" />
+        {voiceReconnecting && socketReconnecting
+          ? "Connection lost. Reconnecting audio and live transcripts..."
+          : voiceReconnecting
+          ? "Reconnecting audio..."
+          : "Reconnecting live transcripts..."}
+      </div>
+    );
+  }
+
+  if (voiceStatus === "renew-failed") {
+    return (
+      <div className="mx-2 mt-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-700 md:mx-4">
+        Couldn&apos;t renew voice access, retrying. Audio will reconnect automatically if it drops.
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ConnectionState } from "@/lib/websocket";
+
+interface ConnectionIndicatorProps {
+  state: ConnectionState | null;
+  onRetry: () => void;
+}
+
+/**
+ * Dot + label for the transcript socket, including a live
+ * "reconnecting in Ns" countdown and a retry button once it gives up.
+ */
+export default function ConnectionIndicator({ state, onRetry }: ConnectionIndicatorProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const retryAt = state?.phase === "reconnecting" ? state.retryAt : null;
+
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const phase = state?.phase ?? "idle";
+  let dot = "bg-yellow-500";
+  let label = "Connecting...";
+
+  if (phase === "open") {
+    dot = "bg-green-500";
+    label = "Connected";
+  } else if (phase === "reconnecting" && state) {
+    const seconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+    label =
+      seconds > 0
+        ? `Reconnecting in ${seconds}s (attempt ${state.attempt}/${state.maxAttempts})`
+        : "Reconnecting...";
+  } else if (phase === "failed") {
+    dot = "bg-red-500";
+    label = "Connection lost";
+  } else if (phase === "closed") {
+    dot = "bg-gray-400";
+    label = "Disconnected";
+  }
+
+  return (
+    <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+      <span className={`h-2 w-2 rounded-full ${dot}`} />
+      {label}
+      {(phase === "failed" || (phase === "reconnecting" && retryAt)) && (
+        <button onClick={onRetry} className="text-[#5048E5] underline">
+          Retry now
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { ECHO_TEST_MS, useMicCheck } from "@/lib/room/useMicCheck";
+import type { AudioDevicesResult } from "@/lib/room/useAudioDevices";
+import DeviceSelect from "@/components/DeviceSelect";
+import MicPermissionHelp from "@/components/MicPermissionHelp";
+
+interface DeviceCheckProps {
+  code: string;
+  devices: AudioDevicesResult;
+  onJoin: () => void;
+}
+
+/**
+ * Pre-join screen: pick the mic and speaker, watch the level move, and hear
+ * yourself back before entering the room.
+ */
+export default function DeviceCheck({ code, devices, onJoin }: DeviceCheckProps) {
+  // Device labels are only listed once the mic has been allowed
+  const check = useMicCheck(devices.micId, { onGranted: () => void devices.refresh() });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4">
+      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-md">
+        <h1 className="text-xl font-semibold text-gray-900">Check your audio</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Session <span className="font-mono">{code}</span>
+        </p>
+
+        <div className="mt-5">
+          {check.failure ? (
+            <MicPermissionHelp failure={check.failure} onRetry={check.retry} />
+          ) : (
+            <>
+              <DeviceSelect devices={devices} />
+
+              <div className="mt-4">
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>Input level</span>
+                  <span>{check.ready ? "Say something" : "Waiting for microphone..."}</span>
+                </div>
+                <div className="mt-1 h-2 overflow-hidden rounded-full bg-gray-200">
+                  <div
+                    className="h-full rounded-full bg-gradient-to-r from-[#5048E5] via-purple-400 to-pink-400 transition-all duration-100"
+                    style={{ width: `${check.level}%` }}
+                  />
+                </div>
+              </div>
+
+              <button
+                onClick={() => check.startEchoTest(devices.speakerId)}
+                disabled={!check.ready || check.echo !== "idle"}
+                className="mt-4 w-full rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {check.echo === "recording"
+                  ? `Recording ${ECHO_TEST_MS / 1000} seconds...`
+                  : check.echo === "playing"
+                  ? "Playing back..."
+                  : "Echo test"}
+              </button>
+              <p className="mt-1 text-xs text-gray-500">
+                Records a few seconds and plays them back on the selected speaker.
+              </p>
+            </>
+          )}
+        </div>
+
+        <button
+          onClick={onJoin}
+          disabled={!check.ready}
+          className="mt-6 w-full rounded-md bg-[#5048E5] px-4 py-2 font-medium text-white hover:bg-[#4338ca] focus:outline-none focus:ring-2 focus:ring-[#5048E5] focus:ring-offset-2 disabled:opacity-50"
+        >
+          Join now
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import type { AudioDevicesResult } from "@/lib/room/useAudioDevices";
+
+interface DeviceSelectProps {
+  devices: AudioDevicesResult;
+}
+
+/**
+ * Microphone and speaker pickers. The speaker picker is only offered where
+ * the browser can route audio output (setSinkId).
+ */
+export default function DeviceSelect({ devices }: DeviceSelectProps) {
+  const { microphones, speakers, micId, speakerId } = devices;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="device-mic" className="block text-sm font-medium text-gray-700">
+          Microphone
+        </label>
+        <select
+          id="device-mic"
+          value={micId ?? ""}
+          onChange={(e) => devices.setMicId(e.target.value)}
+          disabled={microphones.length === 0}
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-[#5048E5] focus:outline-none focus:ring-1 focus:ring-[#5048E5]"
+        >
+          {microphones.length === 0 && <option value="">No microphone found</option>}
+          {microphones.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.label}
+              {d.isDefault ? " (default)" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+      {devices.canSelectSpeaker && (
+        <div>
+          <label htmlFor="device-speaker" className="block text-sm font-medium text-gray-700">
+            Speaker
+          </label>
+          <select
+            id="device-speaker"
+            value={speakerId ?? ""}
+            onChange={(e) => devices.setSpeakerId(e.target.value)}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-[#5048E5] focus:outline-none focus:ring-1 focus:ring-[#5048E5]"
+          >
+            {speakers.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.label}
+                {d.isDefault ? " (default)" : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+interface FieldErrorProps {
+  message?: string;
+}
+
+/**
+ * Inline validation message rendered under a form field.
+ */
+export default function FieldError({ message }: FieldErrorProps) {
+  if (!message) return null;
+  return <p className="mt-1 text-xs text-red-600">{message}</p>;
+}
@@ -0,0 +1,23 @@
+import { highlightParts } from "@/lib/room/transcriptSearch";
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+/** Text with every occurrence of the search query marked. */
+export default function HighlightedText({ text, query }: HighlightedTextProps) {
+  return (
+    <>
+      {highlightParts(text, query).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 text-inherit">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,105 @@
+import type { PresenceEntry } from "@/lib/room/presence";
+import type { HostControls } from "@/lib/room/useModeration";
+
+interface HostControlsPanelProps {
+  controls: HostControls;
+  participants: PresenceEntry[]; // everyone but the host
+  locked: boolean;
+}
+
+/**
+ * Host-only moderation: room-wide actions (mute all, lock, end for
+ * everyone) and per-participant mute / remove. Only ending the session is
+ * shown unless the host actions are enabled.
+ */
+export default function HostControlsPanel({ controls, participants, locked }: HostControlsPanelProps) {
+  const { actions, pending, error } = controls;
+  const busy = pending !== null;
+  // Guests Agora reports without a Relay participant can't be moderated
+  const moderatable = actions ? participants.filter((p) => p.participantId !== null) : [];
+
+  const handleEnd = () => {
+    if (!confirm("End this session for everyone?")) return;
+    void controls.endForEveryone();
+  };
+
+  const handleMute = (entry: PresenceEntry) => {
+    if (entry.participantId) void actions?.mute(entry.participantId);
+  };
+
+  const handleRemove = (entry: PresenceEntry) => {
+    if (!entry.participantId) return;
+    if (!confirm(`Remove ${entry.name} from the session?`)) return;
+    void actions?.remove(entry.participantId);
+  };
+
+  return (
+    <div className="mx-2 mb-2 rounded-lg bg-white p-3 md:mx-4 md:mb-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-xs font-medium text-gray-500">HOST CONTROLS</span>
+        <div className="flex flex-wrap gap-2">
+          {actions && (
+            <>
+              <button
+                onClick={() => void actions.muteAll()}
+                disabled={busy || moderatable.length === 0}
+                className="rounded-md border border-gray-300 px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-50"
+              >
+                {pending === "mute-all" ? "Muting..." : "Mute all"}
+              </button>
+              <button
+                onClick={() => void actions.setLocked(!locked)}
+                disabled={busy}
+                aria-pressed={locked}
+                className={`rounded-md border px-3 py-1 text-sm disabled:opacity-50 ${
+                  locked ? "border-amber-400 bg-amber-50 text-amber-700" : "border-gray-300 hover:bg-gray-50"
+                }`}
+              >
+                {locked ? "🔒 Unlock room" : "Lock room"}
+              </button>
+            </>
+          )}
+          <button
+            onClick={handleEnd}
+            disabled={busy}
+            className="rounded-md bg-red-500 px-3 py-1 text-sm text-white hover:opacity-80 disabled:opacity-50"
+          >
+            {pending === "end" ? "Ending..." : "End for everyone"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {moderatable.length > 0 && (
+        <ul className="mt-3 max-h-40 divide-y divide-gray-100 overflow-y-auto">
+          {moderatable.map((entry) => (
+            <li key={entry.key} className="flex items-center justify-between py-1.5 text-sm">
+              <span className="flex min-w-0 items-center gap-2">
+                <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: entry.color }} />
+                <span className="truncate">{entry.name}</span>
+                {!entry.hasAudio && entry.inChannel && <span className="text-xs text-gray-400">muted</span>}
+              </span>
+              <span className="flex shrink-0 gap-2">
+                <button
+                  onClick={() => handleMute(entry)}
+                  disabled={busy || !entry.hasAudio}
+                  className="text-xs text-[#5048E5] hover:underline disabled:text-gray-400 disabled:no-underline"
+                >
+                  {pending === `mute:${entry.participantId}` ? "Muting..." : "Mute"}
+                </button>
+                <button
+                  onClick={() => handleRemove(entry)}
+                  disabled={busy}
+                  className="text-xs text-red-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                >
+                  {pending === `remove:${entry.participantId}` ? "Removing..." : "Remove"}
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { MIC_FAILURE_MESSAGES, MIC_PERMISSION_HELP, detectBrowser } from "@/lib/audio/devices";
+import type { MicFailure } from "@/lib/audio/devices";
+
+interface MicPermissionHelpProps {
+  failure: MicFailure;
+  onRetry: () => void;
+}
+
+/** Why the microphone couldn't be opened and, if it was blocked, how to unblock it in this browser. */
+export default function MicPermissionHelp({ failure, onRetry }: MicPermissionHelpProps) {
+  const steps =
+    failure === "denied" && typeof navigator !== "undefined"
+      ? MIC_PERMISSION_HELP[detectBrowser(navigator.userAgent)]
+      : null;
+
+  return (
+    <div className="rounded-lg bg-yellow-50 p-4 text-sm text-yellow-700">
+      <p className="font-medium">{MIC_FAILURE_MESSAGES[failure]}</p>
+      {steps && (
+        <ol className="mt-2 list-decimal space-y-1 pl-5">
+          {steps.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+      )}
+      <button onClick={onRetry} className="mt-3 rounded-md bg-[#5048E5] px-4 py-2 text-white">
+        Try Again
+      </button>
+    </div>
+  );
+}
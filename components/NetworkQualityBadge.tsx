@@ -0,0 +1,33 @@
+import { overallQuality } from "@/lib/room/networkQuality";
+import type { LinkQuality, QualityLevel } from "@/lib/room/networkQuality";
+
+interface NetworkQualityBadgeProps {
+  quality: LinkQuality | null;
+}
+
+const BARS: Record<QualityLevel, number> = { unknown: 0, down: 0, poor: 1, fair: 2, good: 3 };
+const COLORS: Record<QualityLevel, string> = {
+  unknown: "bg-gray-300",
+  down: "bg-red-500",
+  poor: "bg-red-500",
+  fair: "bg-amber-400",
+  good: "bg-green-500",
+};
+
+/** Three signal bars for the worse of uplink/downlink; details on hover. */
+export default function NetworkQualityBadge({ quality }: NetworkQualityBadgeProps) {
+  const level = quality ? overallQuality(quality) : "unknown";
+  const label = quality ? `Upload: ${quality.uplink} · Download: ${quality.downlink}` : "Network quality unknown";
+
+  return (
+    <span className="inline-flex h-3 items-end gap-0.5" title={label} aria-label={label} role="img">
+      {[1, 2, 3].map((bar) => (
+        <span
+          key={bar}
+          className={`w-1 rounded-sm ${bar <= BARS[level] ? COLORS[level] : "bg-gray-300"}`}
+          style={{ height: `${bar * 33}%` }}
+        />
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,71 @@
+import type { PresenceEntry } from "@/lib/room/presence";
+import NetworkQualityBadge from "@/components/NetworkQualityBadge";
+
+interface ParticipantTileProps {
+  entry: PresenceEntry;
+}
+
+export function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  return (parts[0]?.[0] ?? "?").toUpperCase() + (parts[1]?.[0] ?? "").toUpperCase();
+}
+
+/**
+ * Avatar, name and badges (host, language, voice status, network quality)
+ * for one person in the room's participants panel, glowing with their
+ * audio level.
+ */
+export default function ParticipantTile({ entry }: ParticipantTileProps) {
+  const status = !entry.inChannel ? "Not connected" : entry.hasAudio ? "On mic" : "Listening";
+  // Glow grows with the last reported level; the active speaker gets a ring
+  const glow = entry.inChannel && entry.level > 0 ? 4 + Math.round(entry.level / 5) : 0;
+
+  return (
+    <div className="flex flex-col items-center" title={status}>
+      <div
+        className={`relative h-12 w-12 md:h-20 md:w-20 rounded-full bg-white border-4 flex items-center justify-center text-lg md:text-2xl font-semibold transition-all duration-500 ${
+          entry.isActiveSpeaker ? "scale-105" : ""
+        } ${entry.inChannel ? "" : "border-gray-300 text-gray-400"}`}
+        style={
+          entry.inChannel
+            ? {
+                borderColor: entry.color,
+                color: entry.color,
+                boxShadow: glow
+                  ? `0 0 ${glow}px ${entry.isActiveSpeaker ? glow / 2 : 0}px ${entry.color}`
+                  : undefined,
+              }
+            : undefined
+        }
+      >
+        {initials(entry.name)}
+        <span
+          className={`absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-white ${
+            !entry.inChannel ? "bg-gray-400" : entry.hasAudio ? "bg-green-500" : "bg-yellow-400"
+          }`}
+        />
+      </div>
+      <div className="mt-2 flex max-w-[7rem] items-center gap-1 text-xs">
+        <span className="truncate">{entry.name}</span>
+        {entry.inChannel && <NetworkQualityBadge quality={entry.network} />}
+      </div>
+      <div className="mt-1 flex gap-1">
+        {entry.isHost && (
+          <span className="rounded bg-[#5048E5] px-1.5 py-0.5 text-[10px] font-medium text-white">
+            Host
+          </span>
+        )}
+        {entry.language && (
+          <span className="rounded bg-white px-1.5 py-0.5 text-[10px] font-medium uppercase text-gray-600">
+            {entry.language}
+          </span>
+        )}
+      </div>
+      {entry.isActiveSpeaker && (
+        <div className="mt-1 text-[10px] font-medium" style={{ color: entry.color }}>
+          Speaking
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { LiveTranscript } from "@/lib/room/liveTranscripts";
+import type { Meeting } from "@/types";
+
+interface SessionEndedSummaryProps {
+  meeting: Meeting;
+  headline: string;
+  endedAt: string | null;
+  isHost: boolean;
+  transcripts: LiveTranscript[]; // what this client received while in the room
+  language: string | null;
+  onDone: () => void;
+}
+
+function formatElapsed(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return "under a minute";
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h}h ${String(m).padStart(2, "0")}m` : `${m} min`;
+}
+
+/**
+ * Shown in place of the room once the session is over: a few numbers, and
+ * the way to the transcript — the full one on the session page for the
+ * host, the captions received in the room for everyone else.
+ */
+export default function SessionEndedSummary({
+  meeting,
+  headline,
+  endedAt,
+  isHost,
+  transcripts,
+  language,
+  onDone,
+}: SessionEndedSummaryProps) {
+  const [showTranscript, setShowTranscript] = useState(false);
+
+  const finals = transcripts.filter((t) => t.isFinal);
+  const speakers = new Set(finals.map((t) => t.speaker_id)).size;
+  const end = endedAt ?? meeting.ended_at ?? null;
+  const duration =
+    meeting.created_at && end ? Date.parse(end) - Date.parse(meeting.created_at) : Number.NaN;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4">
+      <div className="w-full max-w-lg rounded-lg bg-white p-6 shadow-md">
+        <p className="text-xs font-medium uppercase text-gray-500">Session ended</p>
+        <h1 className="mt-1 text-xl font-semibold text-gray-900">{meeting.title}</h1>
+        <p className="mt-2 text-sm text-gray-600">{headline}</p>
+
+        <dl className="mt-4 grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-md bg-gray-50 p-3">
+            <dt className="text-xs text-gray-500">Duration</dt>
+            <dd className="mt-1 font-medium">{Number.isFinite(duration) ? formatElapsed(duration) : "—"}</dd>
+          </div>
+          <div className="rounded-md bg-gray-50 p-3">
+            <dt className="text-xs text-gray-500">Captions</dt>
+            <dd className="mt-1 font-medium">{finals.length}</dd>
+          </div>
+          <div className="rounded-md bg-gray-50 p-3">
+            <dt className="text-xs text-gray-500">Speakers</dt>
+            <dd className="mt-1 font-medium">{speakers}</dd>
+          </div>
+        </dl>
+
+        {showTranscript && (
+          <div className="mt-4 max-h-72 space-y-3 overflow-y-auto rounded-md border border-gray-200 p-3">
+            {finals.map((t) => (
+              <div key={t.key} className="text-sm">
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span className="font-medium text-gray-700">{t.speaker_name}</span>
+                  <span>{new Date(t.timestamp).toLocaleTimeString()}</span>
+                </div>
+                <p className="text-gray-700">{t.original_text}</p>
+                {language && t.translations?.[language] && (
+                  <p className="font-medium text-black">{t.translations[language]}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-wrap gap-2">
+          {isHost ? (
+            <Link
+              href={`/dashboard/sessions/${meeting.id}`}
+              className="flex-1 rounded-md bg-[#5048E5] px-4 py-2 text-center text-sm font-medium text-white hover:bg-[#4338ca]"
+            >
+              View full transcript
+            </Link>
+          ) : (
+            finals.length > 0 && (
+              <button
+                onClick={() => setShowTranscript((v) => !v)}
+                className="flex-1 rounded-md bg-[#5048E5] px-4 py-2 text-sm font-medium text-white hover:bg-[#4338ca]"
+              >
+                {showTranscript ? "Hide transcript" : "View transcript"}
+              </button>
+            )
+          )}
+          <button
+            onClick={onDone}
+            className="flex-1 rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            {isHost ? "Back to dashboard" : "Done"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { ROOM_SHORTCUTS } from "@/lib/room/shortcuts";
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+/** Overlay listing the room's keyboard shortcuts. */
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="shortcut-help-title"
+    >
+      <div className="w-full max-w-sm rounded-lg bg-white p-6 shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 id="shortcut-help-title" className="font-semibold">
+            Keyboard shortcuts
+          </h2>
+          <button onClick={onClose} aria-label="Close" className="text-gray-400 hover:text-gray-600">
+            ✕
+          </button>
+        </div>
+        <dl className="mt-4 space-y-2 text-sm">
+          {ROOM_SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.action} className="flex items-center justify-between gap-4">
+              <dt className="text-gray-600">{shortcut.description}</dt>
+              <dd className="flex shrink-0 gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="rounded border border-gray-300 bg-gray-50 px-1.5 py-0.5 font-mono text-xs"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
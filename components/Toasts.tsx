@@ -0,0 +1,34 @@
+import type { Toast } from "@/lib/toasts";
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const TONE_CLASSES: Record<Toast["tone"], string> = {
+  info: "border-gray-200 bg-white text-gray-800",
+  success: "border-green-200 bg-green-50 text-green-800",
+  warning: "border-amber-200 bg-amber-50 text-amber-800",
+};
+
+/**
+ * Bottom-left stack for toasts from useToasts(); click one to dismiss it.
+ */
+export default function Toasts({ toasts, onDismiss }: ToastsProps) {
+  return (
+    <div
+      className="pointer-events-none fixed bottom-4 left-4 z-50 flex flex-col gap-2"
+      aria-live="polite"
+    >
+      {toasts.map((toast) => (
+        <button
+          key={toast.id}
+          onClick={() => onDismiss(toast.id)}
+          className={`pointer-events-auto rounded-md border px-4 py-2 text-left text-sm shadow-md ${TONE_CLASSES[toast.tone]}`}
+        >
+          {toast.message}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { languageLabel } from "@/lib/languages";
+import { EXPORT_FORMATS, downloadTranscript, exportLanguages } from "@/lib/transcriptExport";
+import type { ExportEntry, ExportFormat, ExportMeeting } from "@/lib/transcriptExport";
+
+interface TranscriptExportMenuProps {
+  meeting: ExportMeeting;
+  entries: ExportEntry[];
+  /** Offered alongside any language the entries were translated to. */
+  languages: string[];
+  /** Preselected each time the menu opens. */
+  defaultLanguage?: string | null;
+}
+
+/**
+ * "Export" button with a small popover to pick the file format and the
+ * language (or each utterance's original language) before downloading.
+ */
+export default function TranscriptExportMenu({
+  meeting,
+  entries,
+  languages,
+  defaultLanguage = null,
+}: TranscriptExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("txt");
+  const [language, setLanguage] = useState<string | null>(defaultLanguage);
+
+  const choices = Array.from(new Set([...languages, ...exportLanguages(entries)]));
+  const lossless = format === "json";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          if (!open) setLanguage(defaultLanguage);
+          setOpen(!open);
+        }}
+        disabled={entries.length === 0}
+        aria-expanded={open}
+        title={entries.length === 0 ? "Nothing to export yet" : "Download the transcript"}
+        className="rounded border border-gray-300 px-2 py-1 text-sm hover:bg-gray-50 disabled:opacity-50"
+      >
+        ⬇ Export
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-64 space-y-3 rounded-lg border border-gray-200 bg-white p-4 text-sm text-gray-900 shadow-lg">
+          <div>
+            <label htmlFor="export-format" className="block text-xs font-medium text-gray-700">
+              Format
+            </label>
+            <select
+              id="export-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="mt-1 block w-full rounded border border-gray-300 px-2 py-1"
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <option key={f.format} value={f.format}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="export-language" className="block text-xs font-medium text-gray-700">
+              Language
+            </label>
+            <select
+              id="export-language"
+              value={language ?? ""}
+              onChange={(e) => setLanguage(e.target.value || null)}
+              className="mt-1 block w-full rounded border border-gray-300 px-2 py-1"
+            >
+              <option value="">As spoken (original)</option>
+              {choices.map((code) => (
+                <option key={code} value={code}>
+                  {languageLabel(code)}
+                </option>
+              ))}
+            </select>
+            {lossless && (
+              <p className="mt-1 text-xs text-gray-500">JSON always includes every language.</p>
+            )}
+          </div>
+          <button
+            onClick={() => {
+              downloadTranscript(meeting, entries, format, { language });
+              setOpen(false);
+            }}
+            className="w-full rounded bg-[#5048E5] px-3 py-1.5 font-medium text-white hover:opacity-90"
+          >
+            Download
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { SPEECH_RATES } from "@/lib/audio/speech";
+import type { TranslationSpeechResult } from "@/lib/room/useTranslationSpeech";
+
+interface TranslationSpeechControlsProps {
+  speech: TranslationSpeechResult;
+  languageLabel: string;
+}
+
+/**
+ * "Listen in my language" toggle for the transcript header, with the voice
+ * and speed for the selected language once it's on.
+ */
+export default function TranslationSpeechControls({ speech, languageLabel }: TranslationSpeechControlsProps) {
+  if (!speech.supported) return null;
+
+  return (
+    <div className="mt-2 text-sm">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={speech.enabled}
+          onChange={(e) => speech.setEnabled(e.target.checked)}
+          className="accent-[#5048E5]"
+        />
+        <span>Listen in {languageLabel}</span>
+        {speech.speaking && (
+          <span className="text-xs text-[#5048E5]" aria-live="polite">
+            🔊 speaking…
+          </span>
+        )}
+      </label>
+      {speech.enabled && (
+        <div className="mt-2 flex items-center gap-2">
+          <select
+            value={speech.voiceURI ?? ""}
+            onChange={(e) => speech.setVoiceURI(e.target.value || null)}
+            aria-label="Voice"
+            className="min-w-0 flex-1 rounded border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="">Default voice</option>
+            {speech.voices.map((v) => (
+              <option key={v.uri} value={v.uri}>
+                {v.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={speech.rate}
+            onChange={(e) => speech.setRate(Number(e.target.value))}
+            aria-label="Speed"
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          >
+            {SPEECH_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}×
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {speech.enabled && speech.voices.length === 0 && (
+        <p className="mt-1 text-xs text-amber-600">
+          This browser has no {languageLabel} voice installed; the default voice may mispronounce it.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,16 @@
  * Thin fetch wrapper that:
  * - Prepends the backend base URL
  * - Attaches the JWT Bearer token from localStorage when present
- * - Throws on non-2xx responses with the server's error detail
+ * - Throws an ApiError on non-2xx responses with the server's error detail
+ * - Applies a per-attempt timeout, honours AbortSignal cancellation and
+ *   retries gateway errors and network failures with backoff — for GET/HEAD
+ *   by default, other methods only when the call opts in
+ * - Notifies the registered unauthorized handler once when a token is rejected
  */
 
+import { ApiError } from "@/lib/errors";
+import type { ApiErrorDetail } from "@/lib/errors";
+
 const BASE_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:https://huggingface.co/spaces/JPASJP/realy-api";
 
 // ── Token helpers ─────────────────────────────────────────────────────────────
@@ -20,129 +27,301 @@ export function getToken(): string | null {
 
 export function setToken(token: string): void {
   localStorage.setItem(TOKEN_KEY, token);
+  unauthorizedNotified = false;
 }
 
 export function clearToken(): void {
   localStorage.removeItem(TOKEN_KEY);
 }
 
+// ── Unauthorized interceptor ──────────────────────────────────────────────────
+
+export type UnauthorizedHandler = (error: ApiError) => void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+let unauthorizedNotified = false;
+
+/**
+ * Register the callback run when the backend rejects our token (401).
+ * It fires at most once per stored token so parallel requests don't stack
+ * redirects. Returns an unregister function.
+ */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler): () => void {
+  unauthorizedHandler = handler;
+  return () => {
+    if (unauthorizedHandler === handler) unauthorizedHandler = null;
+  };
+}
+
 // ── Core fetch wrapper ────────────────────────────────────────────────────────
 
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+const RETRY_MAX_DELAY_MS = 5_000;
+
+// Gateway errors may still have reached the app (a 504 often has), so they
+// are only retried where repeating the request is safe — see `retries`
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD"]);
+
 interface RequestOptions extends Omit<RequestInit, "body"> {
   body?: unknown;
   auth?: boolean; // default true — attach JWT if available
+  timeout?: number; // per attempt, in ms — 0 disables
+  // Extra attempts after the first one. Defaults to DEFAULT_RETRIES for
+  // GET/HEAD and 0 otherwise; pass it only to calls that are safe to repeat
+  retries?: number;
+}
+
+/** Per-call options accepted by every endpoint helper below. */
+export type CallOptions = Pick<RequestOptions, "signal" | "timeout" | "retries">;
+
+function backoffDelay(attempt: number): number {
+  const exp = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  // Full jitter so clients recovering from the same outage spread out
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a single fetch attempt, aborting it when the caller's signal fires or
+ * when `timeout` elapses. Timeouts and network failures surface as ApiError
+ * with status 0 so callers can tell them apart from caller cancellation.
+ */
+async function fetchWithTimeout(
+  url: string,
+  path: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal | null
+): Promise<Response> {
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : null;
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    if (timedOut) {
+      throw new ApiError(0, path, `Request timed out after ${Math.round(timeout / 1000)}s`, "timeout");
+    }
+    if (signal?.aborted) throw signal.reason ?? err;
+    throw new ApiError(0, path, "Network error — check your connection", "network_error");
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
 }
 
 export async function apiFetch<T>(
   path: string,
-  { body, auth = true, ...init }: RequestOptions = {}
+  {
+    body,
+    auth = true,
+    timeout = DEFAULT_TIMEOUT_MS,
+    retries,
+    signal,
+    ...init
+  }: RequestOptions = {}
 ): Promise<T> {
+  const method = (init.method ?? "GET").toUpperCase();
+  const maxRetries = retries ?? (IDEMPOTENT_METHODS.has(method) ? DEFAULT_RETRIES : 0);
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
     ...(init.headers as Record<string, string>),
   };
 
-  if (auth) {
-    const token = getToken();
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
+  const token = auth ? getToken() : null;
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
   }
 
-  const response = await fetch(`${BASE_URL}${path}`, {
+  const requestInit: RequestInit = {
     ...init,
+    method,
     headers,
     body: body !== undefined ? JSON.stringify(body) : undefined,
-  });
+  };
 
-  if (!response.ok) {
-    let detail = `HTTP ${response.status}`;
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < maxRetries;
+    let response: Response;
     try {
-      const err = await response.json();
-      detail = err.detail ?? JSON.stringify(err);
-    } catch {
-      // ignore parse errors
+      response = await fetchWithTimeout(`${BASE_URL}${path}`, path, requestInit, timeout, signal);
+    } catch (err) {
+      // Timeouts and dropped connections
+      if (canRetry && err instanceof ApiError) {
+        await sleep(backoffDelay(attempt), signal);
+        continue;
+      }
+      throw err;
     }
-    throw new Error(detail);
-  }
 
-  // 204 No Content
-  if (response.status === 204) return undefined as T;
+    if (!response.ok) {
+      if (canRetry && RETRYABLE_STATUSES.has(response.status)) {
+        await sleep(backoffDelay(attempt), signal);
+        continue;
+      }
+
+      let detail: ApiErrorDetail = null;
+      let code: string | undefined;
+      try {
+        const err = await response.json();
+        detail = err.detail ?? err;
+        if (typeof err.code === "string") code = err.code;
+      } catch {
+        // ignore parse errors
+      }
+      const error = new ApiError(response.status, path, detail, code);
+
+      // Only a rejected token means the session expired — a 401 from an
+      // unauthenticated call (e.g. wrong password on /auth/login) does not.
+      if (error.isUnauthorized && token) {
+        clearToken();
+        if (!unauthorizedNotified) {
+          unauthorizedNotified = true;
+          unauthorizedHandler?.(error);
+        }
+      }
+      throw error;
+    }
+
+    // 204 No Content
+    if (response.status === 204) return undefined as T;
 
-  return response.json() as Promise<T>;
+    return response.json() as Promise<T>;
+  }
 }
 
 // ── Auth endpoints ────────────────────────────────────────────────────────────
 
 import type { Token, AuthUser, Company } from "@/types";
 
-export async function loginCompany(email: string, password: string): Promise<Token> {
+export async function loginCompany(
+  email: string,
+  password: string,
+  options: CallOptions = {}
+): Promise<Token> {
   return apiFetch<Token>("/auth/login", {
     method: "POST",
     body: { email, password },
     auth: false,
+    ...options,
   });
 }
 
 export async function registerCompany(
   name: string,
   email: string,
-  password: string
+  password: string,
+  options: CallOptions = {}
 ): Promise<Company> {
   return apiFetch<Company>("/auth/register", {
     method: "POST",
     body: { name, email, password },
     auth: false,
+    ...options,
   });
 }
 
-export async function getMe(): Promise<AuthUser> {
-  return apiFetch<AuthUser>("/auth/me");
+export async function getMe(options: CallOptions = {}): Promise<AuthUser> {
+  return apiFetch<AuthUser>("/auth/me", options);
 }
 
 // ── Company endpoints ─────────────────────────────────────────────────────────
 
-export async function getMyCompany(): Promise<Company> {
-  return apiFetch<Company>("/companies/me");
+export async function getMyCompany(options: CallOptions = {}): Promise<Company> {
+  return apiFetch<Company>("/companies/me", options);
 }
 
 // ── Meeting endpoints ─────────────────────────────────────────────────────────
 
 import type { Meeting, MeetingCreate, AgoraTokenResponse } from "@/types";
 
-export async function listMeetings(): Promise<Meeting[]> {
-  return apiFetch<Meeting[]>("/meetings/");
+export async function listMeetings(options: CallOptions = {}): Promise<Meeting[]> {
+  return apiFetch<Meeting[]>("/meetings/", options);
+}
+
+export async function createMeeting(
+  data: MeetingCreate,
+  options: CallOptions = {}
+): Promise<Meeting> {
+  return apiFetch<Meeting>("/meetings/", { method: "POST", body: data, ...options });
+}
+
+export async function getMeeting(meetingId: string, options: CallOptions = {}): Promise<Meeting> {
+  return apiFetch<Meeting>(`/meetings/${meetingId}`, options);
 }
 
-export async function createMeeting(data: MeetingCreate): Promise<Meeting> {
-  return apiFetch<Meeting>("/meetings/", { method: "POST", body: data });
+export async function getMeetingByCode(code: string, options: CallOptions = {}): Promise<Meeting> {
+  return apiFetch<Meeting>(`/meetings/code/${code}`, { auth: false, ...options });
 }
 
-export async function getMeeting(meetingId: string): Promise<Meeting> {
-  return apiFetch<Meeting>(`/meetings/${meetingId}`);
+export async function endMeeting(meetingId: string, options: CallOptions = {}): Promise<Meeting> {
+  return apiFetch<Meeting>(`/meetings/${meetingId}/end`, { method: "POST", ...options });
 }
 
-export async function getMeetingByCode(code: string): Promise<Meeting> {
-  return apiFetch<Meeting>(`/meetings/code/${code}`, { auth: false });
+/** Close the room to new joiners (or reopen it); people already inside stay. */
+export async function setMeetingLocked(
+  meetingId: string,
+  locked: boolean,
+  options: CallOptions = {}
+): Promise<Meeting> {
+  return apiFetch<Meeting>(`/meetings/${meetingId}/lock`, {
+    method: "POST",
+    body: { locked },
+    ...options,
+  });
 }
 
-export async function endMeeting(meetingId: string): Promise<Meeting> {
-  return apiFetch<Meeting>(`/meetings/${meetingId}/end`, { method: "POST" });
+/** Mute every participant except the host. */
+export async function muteAllParticipants(meetingId: string, options: CallOptions = {}): Promise<void> {
+  return apiFetch<void>(`/meetings/${meetingId}/mute-all`, { method: "POST", ...options });
 }
 
-export async function deleteMeeting(meetingId: string): Promise<void> {
-  return apiFetch<void>(`/meetings/${meetingId}`, { method: "DELETE" });
+export async function deleteMeeting(meetingId: string, options: CallOptions = {}): Promise<void> {
+  return apiFetch<void>(`/meetings/${meetingId}`, { method: "DELETE", ...options });
 }
 
 export async function getAgoraToken(
   meetingId: string,
   uid: number = 0,
-  role: "publisher" | "subscriber" = "publisher"
+  role: "publisher" | "subscriber" = "publisher",
+  options: CallOptions = {}
 ): Promise<AgoraTokenResponse> {
   return apiFetch<AgoraTokenResponse>(`/meetings/${meetingId}/agora-token`, {
     method: "POST",
     body: { uid, role },
     auth: false,
+    ...options,
   });
 }
 
@@ -150,45 +329,94 @@ export async function getAgoraToken(
 
 import type { Participant, ParticipantCreate } from "@/types";
 
-export async function joinMeeting(data: ParticipantCreate): Promise<Participant> {
+export async function joinMeeting(
+  data: ParticipantCreate,
+  options: CallOptions = {}
+): Promise<Participant> {
   return apiFetch<Participant>("/participants/", {
     method: "POST",
     body: data,
     auth: false,
+    ...options,
   });
 }
 
-export async function leaveMeeting(participantId: string): Promise<Participant> {
+export async function leaveMeeting(
+  participantId: string,
+  options: CallOptions = {}
+): Promise<Participant> {
   return apiFetch<Participant>(`/participants/${participantId}/leave`, {
     method: "POST",
     auth: false,
+    ...options,
+  });
+}
+
+export async function muteParticipant(participantId: string, options: CallOptions = {}): Promise<void> {
+  return apiFetch<void>(`/participants/${participantId}/mute`, { method: "POST", ...options });
+}
+
+/** Host-only: disconnect a participant and mark them as left. */
+export async function removeParticipant(
+  participantId: string,
+  options: CallOptions = {}
+): Promise<Participant> {
+  return apiFetch<Participant>(`/participants/${participantId}/remove`, {
+    method: "POST",
+    ...options,
   });
 }
 
-export async function listParticipants(meetingId: string): Promise<Participant[]> {
-  return apiFetch<Participant[]>(`/participants/meeting/${meetingId}`, { auth: false });
+export async function listParticipants(
+  meetingId: string,
+  options: CallOptions = {}
+): Promise<Participant[]> {
+  return apiFetch<Participant[]>(`/participants/meeting/${meetingId}`, {
+    auth: false,
+    ...options,
+  });
 }
 
 // ── Analytics endpoints ───────────────────────────────────────────────────────
 
 import type { Analytics } from "@/types";
 
-export async function getMeetingAnalytics(meetingId: string): Promise<Analytics> {
-  return apiFetch<Analytics>(`/analytics/meeting/${meetingId}`);
+export async function getMeetingAnalytics(
+  meetingId: string,
+  options: CallOptions = {}
+): Promise<Analytics> {
+  return apiFetch<Analytics>(`/analytics/meeting/${meetingId}`, options);
 }
 
 // ── Summary endpoints ─────────────────────────────────────────────────────────
 
 import type { Summary } from "@/types";
 
-export async function getMeetingSummaries(meetingId: string): Promise<Summary[]> {
-  return apiFetch<Summary[]>(`/summaries/meeting/${meetingId}`);
+export async function getMeetingSummaries(
+  meetingId: string,
+  options: CallOptions = {}
+): Promise<Summary[]> {
+  return apiFetch<Summary[]>(`/summaries/meeting/${meetingId}`, options);
 }
 
 // ── Transcript endpoints ──────────────────────────────────────────────────────
 
 import type { Transcript } from "@/types";
 
-export async function getMeetingTranscripts(meetingId: string): Promise<Transcript[]> {
-  return apiFetch<Transcript[]>(`/transcripts/meeting/${meetingId}`);
+export async function getMeetingTranscripts(
+  meetingId: string,
+  options: CallOptions = {}
+): Promise<Transcript[]> {
+  return apiFetch<Transcript[]>(`/transcripts/meeting/${meetingId}`, options);
+}
+
+// ── Translation endpoints ─────────────────────────────────────────────────────
+
+import type { Translation } from "@/types";
+
+export async function getMeetingTranslations(
+  meetingId: string,
+  options: CallOptions = {}
+): Promise<Translation[]> {
+  return apiFetch<Translation[]>(`/translations/meeting/${meetingId}`, options);
 }
@@ -0,0 +1,138 @@
+/**
+ * Audio device helpers shared by the pre-join check and the room.
+ *
+ * Device ids are remembered in localStorage so the next session starts on
+ * the same headset; if a remembered device isn't plugged in, selection
+ * falls back to the system default (or the first device listed).
+ */
+
+export type AudioDeviceKind = "audioinput" | "audiooutput";
+
+export interface AudioDevicePreferences {
+  micId: string | null;
+  speakerId: string | null;
+}
+
+const STORAGE_KEY = "relay_audio_devices";
+
+export function loadDevicePreferences(): AudioDevicePreferences {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null") as
+      | Partial<AudioDevicePreferences>
+      | null;
+    return {
+      micId: typeof stored?.micId === "string" ? stored.micId : null,
+      speakerId: typeof stored?.speakerId === "string" ? stored.speakerId : null,
+    };
+  } catch {
+    return { micId: null, speakerId: null };
+  }
+}
+
+export function saveDevicePreferences(prefs: AudioDevicePreferences): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+export interface AudioDevice {
+  id: string;
+  label: string;
+  isDefault: boolean; // the system default right now
+}
+
+/**
+ * Concrete devices of one kind. Chrome also lists "default" and
+ * "communications" aliases; they are folded into the isDefault flag so a
+ * selection always names a physical device, and unplugging it is noticed
+ * even when it was only selected as the default. Ids are empty until
+ * microphone permission is granted, so nothing is listed before that.
+ */
+export function listDevices(all: MediaDeviceInfo[], kind: AudioDeviceKind): AudioDevice[] {
+  const ofKind = all.filter((d) => d.kind === kind && d.deviceId);
+  const alias = ofKind.find((d) => d.deviceId === "default");
+  const concrete = ofKind.filter((d) => d.deviceId !== "default" && d.deviceId !== "communications");
+  // Without an alias (Firefox, Safari) the first device is the default
+  const defaultIndex = alias ? Math.max(0, concrete.findIndex((d) => d.groupId === alias.groupId)) : 0;
+  return concrete.map((d, i) => ({
+    id: d.deviceId,
+    label: d.label || (kind === "audiooutput" ? `Speaker ${i + 1}` : `Microphone ${i + 1}`),
+    isDefault: i === defaultIndex,
+  }));
+}
+
+/** Preferred device if it is still present, else the default, else the first. */
+export function pickDevice(devices: AudioDevice[], preferredId: string | null): string | null {
+  if (preferredId && devices.some((d) => d.id === preferredId)) return preferredId;
+  return devices.find((d) => d.isDefault)?.id ?? devices[0]?.id ?? null;
+}
+
+/** Choosing the output device needs HTMLMediaElement.setSinkId (not in Firefox < 116 or Safari). */
+export function canSelectSpeaker(): boolean {
+  return typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+}
+
+// ── Failures ──────────────────────────────────────────────────────────────────
+
+export type MicFailure = "denied" | "not-found" | "in-use" | "unknown";
+
+/**
+ * Map a getUserMedia DOMException or an Agora track error to what the user
+ * can do about it.
+ */
+export function classifyMicError(err: unknown): MicFailure {
+  const name = err instanceof Error ? err.name : "";
+  const code = (err as { code?: unknown } | null)?.code;
+  if (name === "NotAllowedError" || name === "SecurityError" || code === "PERMISSION_DENIED") return "denied";
+  if (name === "NotFoundError" || name === "OverconstrainedError" || code === "DEVICE_NOT_FOUND") return "not-found";
+  if (name === "NotReadableError" || name === "AbortError" || code === "NOT_READABLE") return "in-use";
+  return "unknown";
+}
+
+export type BrowserFamily = "chrome" | "edge" | "firefox" | "safari" | "other";
+
+export function detectBrowser(userAgent: string): BrowserFamily {
+  if (/Edg\//.test(userAgent)) return "edge";
+  if (/Firefox\//.test(userAgent)) return "firefox";
+  if (/Chrome\/|CriOS\//.test(userAgent)) return "chrome";
+  if (/Safari\//.test(userAgent)) return "safari";
+  return "other";
+}
+
+/** Steps to re-allow the microphone after it was blocked, per browser. */
+export const MIC_PERMISSION_HELP: Record<BrowserFamily, string[]> = {
+  chrome: [
+    "Click the icon to the left of the address bar.",
+    "Set Microphone to Allow.",
+    "Reload the page.",
+  ],
+  edge: [
+    "Click the lock icon to the left of the address bar.",
+    "Open Permissions for this site and set Microphone to Allow.",
+    "Reload the page.",
+  ],
+  firefox: [
+    "Click the microphone icon (crossed out) in the address bar.",
+    "Remove the Blocked Temporarily / Blocked entry for the microphone.",
+    "Reload the page and choose Allow when asked.",
+  ],
+  safari: [
+    "Open Safari > Settings > Websites > Microphone.",
+    "Set this website to Allow.",
+    "Reload the page.",
+  ],
+  other: [
+    "Open your browser's site settings for this page.",
+    "Allow access to the microphone.",
+    "Reload the page.",
+  ],
+};
+
+export const MIC_FAILURE_MESSAGES: Record<MicFailure, string> = {
+  denied: "Microphone access is blocked for this site.",
+  "not-found": "No microphone was found. Plug one in or pick another device.",
+  "in-use": "The microphone is being used by another application. Close it and try again.",
+  unknown: "The microphone could not be started.",
+};
@@ -0,0 +1,130 @@
+/**
+ * Low-latency PCM capture for speech-to-text.
+ *
+ * Taps an existing microphone MediaStreamTrack (the Agora track, so the mic
+ * is only opened once), runs it through the "pcm-capture" AudioWorklet
+ * (public/worklets/pcm-capture.js) and emits small, independently decodable
+ * 16-bit mono frames.
+ *
+ * Packet layout sent over RelayWebSocket (little-endian):
+ *
+ *   offset  size  field
+ *   0       4     sequence     uint32, starts at 0, +1 per captured frame
+ *   4       4     sample rate  uint32, Hz (16000)
+ *   8       8     timestamp    float64, epoch ms of the frame's first sample
+ *   16      ...   samples      int16 PCM, mono
+ */
+
+const WORKLET_URL = "/worklets/pcm-capture.js";
+
+export const PCM_HEADER_BYTES = 16;
+export const DEFAULT_PCM_SAMPLE_RATE = 16_000;
+export const DEFAULT_PCM_FRAME_MS = 40;
+
+export interface PcmFrame {
+  seq: number;
+  sampleRate: number;
+  timestamp: number;
+  durationMs: number;
+  samples: Int16Array;
+}
+
+export interface PcmCaptureOptions {
+  sampleRate: number;
+  frameMs: number;
+  onFrame: (frame: PcmFrame) => void;
+}
+
+export function encodePcmPacket(frame: PcmFrame): ArrayBuffer {
+  const buffer = new ArrayBuffer(PCM_HEADER_BYTES + frame.samples.byteLength);
+  const view = new DataView(buffer);
+  view.setUint32(0, frame.seq >>> 0, true);
+  view.setUint32(4, frame.sampleRate, true);
+  view.setFloat64(8, frame.timestamp, true);
+  const out = new Int16Array(buffer, PCM_HEADER_BYTES, frame.samples.length);
+  out.set(frame.samples);
+  return buffer;
+}
+
+export class PcmCapture {
+  private track: MediaStreamTrack;
+  private options: PcmCaptureOptions;
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | null = null;
+  private seq = 0;
+  private startedAt = 0;
+
+  constructor(track: MediaStreamTrack, options: Partial<PcmCaptureOptions> & Pick<PcmCaptureOptions, "onFrame">) {
+    this.track = track;
+    this.options = {
+      sampleRate: DEFAULT_PCM_SAMPLE_RATE,
+      frameMs: DEFAULT_PCM_FRAME_MS,
+      ...options,
+    };
+  }
+
+  static get isSupported(): boolean {
+    return typeof window !== "undefined" && typeof AudioWorkletNode !== "undefined";
+  }
+
+  async start(): Promise<void> {
+    if (this.context) return;
+    const { sampleRate, frameMs } = this.options;
+
+    const context = new AudioContext();
+    this.context = context;
+    await context.audioWorklet.addModule(WORKLET_URL);
+    if (context.state === "suspended") {
+      await context.resume();
+    }
+    // stop() may have run while the worklet module was loading
+    if (this.context !== context) return;
+
+    const source = context.createMediaStreamSource(new MediaStream([this.track]));
+    const node = new AudioWorkletNode(context, "pcm-capture", {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions: { targetSampleRate: sampleRate, frameMs },
+    });
+
+    this.seq = 0;
+    this.startedAt = Date.now();
+    node.port.onmessage = (event: MessageEvent<{ samples: Int16Array }>) => {
+      const { samples } = event.data;
+      const durationMs = (samples.length / sampleRate) * 1000;
+      // Derive timestamps from the sample count rather than the wall clock
+      // so they don't drift with message-port jitter
+      const frame: PcmFrame = {
+        seq: this.seq,
+        sampleRate,
+        timestamp: this.startedAt + this.seq * durationMs,
+        durationMs,
+        samples,
+      };
+      this.seq += 1;
+      this.options.onFrame(frame);
+    };
+
+    source.connect(node);
+    this.source = source;
+    this.node = node;
+  }
+
+  stop(): void {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.port.close();
+      this.node.disconnect();
+      this.node = null;
+    }
+    this.source?.disconnect();
+    this.source = null;
+    if (this.context) {
+      this.context.close().catch(() => {
+        // Already closed
+      });
+      this.context = null;
+    }
+  }
+}
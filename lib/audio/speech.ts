@@ -0,0 +1,140 @@
+/**
+ * Text-to-speech for translated captions, on the browser's speechSynthesis.
+ *
+ * Utterances are spoken one at a time in arrival order. Speech is slower
+ * than the captions it follows, so the queue is kept short: beyond
+ * `maxPending` the oldest waiting items are dropped, and anything that has
+ * waited longer than `maxLagMs` is skipped instead of read out late.
+ */
+
+export interface SpeechItem {
+  id: string;
+  text: string;
+  lang: string;
+  queuedAt: number; // epoch ms
+}
+
+export interface SpeechQueueOptions {
+  rate: number; // 0.1–10, 1 = normal
+  voices: Record<string, string>; // language → SpeechSynthesisVoice.voiceURI
+  maxLagMs: number;
+  maxPending: number;
+}
+
+export const DEFAULT_SPEECH_QUEUE_OPTIONS: SpeechQueueOptions = {
+  rate: 1,
+  voices: {},
+  maxLagMs: 10_000,
+  maxPending: 3,
+};
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 1.75];
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+/** Whether a voice speaks a language code such as "fr" (fr-FR, fr-CA…). */
+export function voiceSpeaks(voice: SpeechSynthesisVoice, language: string): boolean {
+  const lang = voice.lang.toLowerCase();
+  const code = language.toLowerCase();
+  return lang === code || lang.startsWith(`${code}-`);
+}
+
+export function voicesFor(language: string): SpeechSynthesisVoice[] {
+  if (!isSpeechSupported()) return [];
+  return window.speechSynthesis.getVoices().filter((v) => voiceSpeaks(v, language));
+}
+
+export class SpeechQueue {
+  private pending: SpeechItem[] = [];
+  private current: SpeechSynthesisUtterance | null = null;
+  private options: SpeechQueueOptions;
+  private onSpeakingChange: (speaking: boolean) => void;
+
+  constructor(onSpeakingChange: (speaking: boolean) => void, options: Partial<SpeechQueueOptions> = {}) {
+    this.onSpeakingChange = onSpeakingChange;
+    this.options = { ...DEFAULT_SPEECH_QUEUE_OPTIONS, ...options };
+  }
+
+  setOptions(patch: Partial<SpeechQueueOptions>): void {
+    this.options = { ...this.options, ...patch };
+  }
+
+  enqueue(item: SpeechItem): void {
+    this.pending.push(item);
+    const overflow = this.pending.length - this.options.maxPending;
+    if (overflow > 0) this.pending.splice(0, overflow);
+    this.next();
+  }
+
+  /** Stop speaking and forget everything queued. */
+  clear(): void {
+    this.pending = [];
+    const wasSpeaking = this.current !== null;
+    this.current = null;
+    if (isSpeechSupported()) window.speechSynthesis.cancel();
+    if (wasSpeaking) this.onSpeakingChange(false);
+  }
+
+  private next(): void {
+    if (this.current) return;
+    const now = Date.now();
+    this.pending = this.pending.filter((item) => now - item.queuedAt <= this.options.maxLagMs);
+    const item = this.pending.shift();
+    if (!item) return;
+
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    utterance.lang = item.lang;
+    utterance.rate = this.options.rate;
+    const voiceURI = this.options.voices[item.lang];
+    const voice = voiceURI ? voicesFor(item.lang).find((v) => v.voiceURI === voiceURI) : undefined;
+    if (voice) utterance.voice = voice;
+
+    const done = () => {
+      if (this.current !== utterance) return;
+      this.current = null;
+      if (this.pending.length === 0) this.onSpeakingChange(false);
+      this.next();
+    };
+    utterance.onend = done;
+    utterance.onerror = done;
+
+    const wasSpeaking = this.current !== null;
+    this.current = utterance;
+    if (!wasSpeaking) this.onSpeakingChange(true);
+    window.speechSynthesis.speak(utterance);
+  }
+}
+
+// ── Settings ──────────────────────────────────────────────────────────────────
+
+export interface SpeechSettings {
+  enabled: boolean;
+  rate: number;
+  voices: Record<string, string>;
+}
+
+const STORAGE_KEY = "relay_tts";
+
+export function loadSpeechSettings(): SpeechSettings {
+  const defaults: SpeechSettings = { enabled: false, rate: 1, voices: {} };
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<SpeechSettings> | null;
+    return {
+      enabled: stored?.enabled === true,
+      rate: typeof stored?.rate === "number" ? stored.rate : defaults.rate,
+      voices: stored?.voices && typeof stored.voices === "object" ? stored.voices : {},
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveSpeechSettings(settings: SpeechSettings): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage errors
+  }
+}
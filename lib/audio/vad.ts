@@ -0,0 +1,265 @@
+/**
+ * Client-side voice-activity detection for the STT pipeline.
+ *
+ * VoiceActivityDetector classifies individual PCM frames (from PcmCapture)
+ * using frame energy against an adaptive noise floor plus two spectral
+ * checks: how much of the energy sits in the speech band, and how flat the
+ * spectrum is (broadband noise is flat, voiced speech is peaky).
+ *
+ * VadGate turns those per-frame decisions into speech segments. It only
+ * forwards frames while someone is talking, keeps a short pre-roll so word
+ * onsets aren't clipped, holds the gate open for a post-roll after the last
+ * voiced frame, and reports speech-start / speech-end for speaking
+ * indicators.
+ */
+
+import type { PcmFrame } from "@/lib/audio/pcmCapture";
+
+export interface VadOptions {
+  preRollMs: number; // audio kept from before speech is detected
+  postRollMs: number; // how long the gate stays open after the last voiced frame
+  minSpeechMs: number; // voiced run needed before speech starts
+  marginDb: number; // energy above the noise floor to count as voiced
+  minEnergyDb: number; // absolute floor, in dBFS
+  minSpeechBandRatio: number; // share of energy in 300–3400 Hz
+  maxFlatness: number; // spectral flatness above this is treated as noise
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  preRollMs: 300,
+  postRollMs: 600,
+  minSpeechMs: 120,
+  marginDb: 10,
+  minEnergyDb: -55,
+  minSpeechBandRatio: 0.5,
+  maxFlatness: 0.45,
+};
+
+export interface VadFrameAnalysis {
+  energyDb: number;
+  noiseFloorDb: number;
+  speechBandRatio: number;
+  flatness: number;
+  voiced: boolean;
+}
+
+export interface SpeechStartEvent {
+  timestamp: number;
+}
+
+export interface SpeechEndEvent {
+  timestamp: number;
+  durationMs: number;
+}
+
+const SPEECH_BAND_HZ: [number, number] = [300, 3400];
+const ANALYSIS_BAND_HZ: [number, number] = [100, 4000];
+const SILENCE_DB = -100;
+
+/** In-place iterative radix-2 FFT; `re.length` must be a power of two. */
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+function largestPowerOfTwo(n: number): number {
+  return 2 ** Math.floor(Math.log2(Math.max(2, n)));
+}
+
+export class VoiceActivityDetector {
+  private options: VadOptions;
+  private noiseFloorDb: number | null = null;
+  private re = new Float32Array(0);
+  private im = new Float32Array(0);
+  private window = new Float32Array(0);
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  analyze(samples: Int16Array, sampleRate: number): VadFrameAnalysis {
+    const { marginDb, minEnergyDb, minSpeechBandRatio, maxFlatness } = this.options;
+
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i] / 0x8000;
+      sumSquares += x * x;
+    }
+    const energyDb =
+      samples.length > 0 ? Math.max(SILENCE_DB, 10 * Math.log10(sumSquares / samples.length + 1e-10)) : SILENCE_DB;
+
+    const { speechBandRatio, flatness } = this.spectrum(samples, sampleRate);
+    const noiseFloorDb = this.noiseFloorDb ?? energyDb;
+
+    const voiced =
+      energyDb > Math.max(minEnergyDb, noiseFloorDb + marginDb) &&
+      speechBandRatio >= minSpeechBandRatio &&
+      flatness <= maxFlatness;
+
+    // Track the noise floor on non-speech frames only: fall quickly so a
+    // loud start doesn't stick, rise slowly so speech doesn't drag it up
+    if (!voiced) {
+      const rate = energyDb < noiseFloorDb ? 0.2 : 0.02;
+      this.noiseFloorDb = noiseFloorDb + (energyDb - noiseFloorDb) * rate;
+    }
+
+    return { energyDb, noiseFloorDb, speechBandRatio, flatness, voiced };
+  }
+
+  reset(): void {
+    this.noiseFloorDb = null;
+  }
+
+  private spectrum(samples: Int16Array, sampleRate: number): { speechBandRatio: number; flatness: number } {
+    const n = largestPowerOfTwo(samples.length);
+    if (samples.length < n) return { speechBandRatio: 0, flatness: 1 };
+    if (this.re.length !== n) {
+      this.re = new Float32Array(n);
+      this.im = new Float32Array(n);
+      this.window = Float32Array.from({ length: n }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+    }
+    const { re, im, window } = this;
+    // Analyze the most recent n samples of the frame
+    const offset = samples.length - n;
+    for (let i = 0; i < n; i++) {
+      re[i] = (samples[offset + i] / 0x8000) * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const binHz = sampleRate / n;
+    let total = 0;
+    let speech = 0;
+    let logSum = 0;
+    let bins = 0;
+    for (let k = 1; k < n / 2; k++) {
+      const hz = k * binHz;
+      if (hz < ANALYSIS_BAND_HZ[0] || hz > ANALYSIS_BAND_HZ[1]) continue;
+      const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+      total += power;
+      if (hz >= SPEECH_BAND_HZ[0] && hz <= SPEECH_BAND_HZ[1]) speech += power;
+      logSum += Math.log(power);
+      bins += 1;
+    }
+    if (bins === 0) return { speechBandRatio: 0, flatness: 1 };
+
+    return {
+      speechBandRatio: speech / total,
+      // Geometric over arithmetic mean of the power spectrum, in (0, 1]
+      flatness: Math.exp(logSum / bins) / (total / bins),
+    };
+  }
+}
+
+export interface VadGateHandlers {
+  onFrame: (frame: PcmFrame) => void;
+  onSpeechStart?: (event: SpeechStartEvent) => void;
+  onSpeechEnd?: (event: SpeechEndEvent) => void;
+}
+
+export class VadGate {
+  private options: VadOptions;
+  private handlers: VadGateHandlers;
+  private detector: VoiceActivityDetector;
+  private pending: PcmFrame[] = [];
+  private pendingMs = 0;
+  private voicedRunMs = 0;
+  private silenceRunMs = 0;
+  private speechStartedAt: number | null = null;
+
+  constructor(handlers: VadGateHandlers, options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+    this.handlers = handlers;
+    this.detector = new VoiceActivityDetector(this.options);
+  }
+
+  get isSpeaking(): boolean {
+    return this.speechStartedAt !== null;
+  }
+
+  push(frame: PcmFrame): void {
+    const { voiced } = this.detector.analyze(frame.samples, frame.sampleRate);
+
+    if (this.speechStartedAt === null) {
+      this.voicedRunMs = voiced ? this.voicedRunMs + frame.durationMs : 0;
+      this.hold(frame);
+      if (this.voicedRunMs >= this.options.minSpeechMs) {
+        this.startSpeech(frame.timestamp + frame.durationMs - this.voicedRunMs);
+      }
+      return;
+    }
+
+    this.handlers.onFrame(frame);
+    this.silenceRunMs = voiced ? 0 : this.silenceRunMs + frame.durationMs;
+    if (this.silenceRunMs >= this.options.postRollMs) {
+      this.endSpeech(frame.timestamp + frame.durationMs);
+    }
+  }
+
+  /**
+   * Close any open segment and forget buffered audio and the noise floor,
+   * e.g. when the mic is muted or swapped.
+   */
+  reset(): void {
+    if (this.speechStartedAt !== null) {
+      this.endSpeech(Date.now());
+    }
+    this.pending = [];
+    this.pendingMs = 0;
+    this.voicedRunMs = 0;
+    this.detector.reset();
+  }
+
+  private hold(frame: PcmFrame): void {
+    this.pending.push(frame);
+    this.pendingMs += frame.durationMs;
+    // Keep the pre-roll plus whatever voiced run is still being confirmed
+    const keepMs = this.options.preRollMs + Math.max(this.voicedRunMs, this.options.minSpeechMs);
+    while (this.pending.length > 1 && this.pendingMs - this.pending[0].durationMs >= keepMs) {
+      this.pendingMs -= this.pending.shift()!.durationMs;
+    }
+  }
+
+  private startSpeech(timestamp: number): void {
+    this.speechStartedAt = timestamp;
+    this.silenceRunMs = 0;
+    this.handlers.onSpeechStart?.({ timestamp });
+    const buffered = this.pending;
+    this.pending = [];
+    this.pendingMs = 0;
+    buffered.forEach((frame) => this.handlers.onFrame(frame));
+  }
+
+  private endSpeech(timestamp: number): void {
+    const startedAt = this.speechStartedAt ?? timestamp;
+    this.speechStartedAt = null;
+    this.voicedRunMs = 0;
+    this.silenceRunMs = 0;
+    this.handlers.onSpeechEnd?.({ timestamp, durationMs: Math.max(0, timestamp - startedAt) });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Just enough WebM parsing to separate a MediaRecorder stream's init
+ * segment from its audio.
+ *
+ * The first chunk MediaRecorder emits starts with the EBML header and the
+ * Segment's Info and Tracks elements, which every decoder needs, followed
+ * by the first Cluster of encoded audio. Only the part before that Cluster
+ * may be replayed (e.g. on reconnect); the rest is audio like any other.
+ */
+
+const EBML_ID = [0x1a, 0x45, 0xdf, 0xa3];
+const CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+
+export interface WebmInitSplit {
+  init: ArrayBuffer; // EBML header, Info and Tracks — no audio
+  rest: ArrayBuffer; // from the first Cluster on; may be empty
+}
+
+function indexOf(bytes: Uint8Array, pattern: number[], from = 0): number {
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Split a WebM stream's first chunk before its first Cluster. Returns null
+ * when the chunk doesn't start with an EBML header.
+ */
+export function splitWebmInitSegment(buffer: ArrayBuffer): WebmInitSplit | null {
+  const bytes = new Uint8Array(buffer);
+  if (indexOf(bytes.subarray(0, EBML_ID.length), EBML_ID) !== 0) return null;
+  const cluster = indexOf(bytes, CLUSTER_ID, EBML_ID.length);
+  const end = cluster === -1 ? bytes.length : cluster;
+  return { init: buffer.slice(0, end), rest: buffer.slice(end) };
+}
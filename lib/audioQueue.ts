@@ -0,0 +1,104 @@
+/**
+ * Bounded FIFO for outbound audio chunks.
+ *
+ * RelayWebSocket parks chunks here while the socket is down and drains it
+ * in order after reconnecting. The queue is capped both by size and by age;
+ * when either cap is hit the oldest chunks are dropped, since stale audio is
+ * worth less to live captions than the speech that follows it. A
+ * MediaRecorder's init segment is never queued (see
+ * RelayWebSocket.setAudioHeader), so dropping the oldest chunk can't leave
+ * the rest undecodable.
+ */
+
+export type AudioChunk = ArrayBuffer | Blob;
+
+export interface AudioQueueOptions {
+  maxSeconds: number; // drop chunks queued longer ago than this
+  maxBytes: number;
+}
+
+export interface AudioQueueStats {
+  queuedChunks: number;
+  queuedBytes: number;
+  droppedChunks: number;
+  droppedBytes: number;
+  droppedMs: number; // only counts chunks whose duration was provided
+}
+
+interface QueuedChunk {
+  chunk: AudioChunk;
+  bytes: number;
+  durationMs: number;
+  enqueuedAt: number;
+}
+
+export const DEFAULT_AUDIO_QUEUE_OPTIONS: AudioQueueOptions = {
+  maxSeconds: 30,
+  maxBytes: 2 * 1024 * 1024,
+};
+
+function chunkSize(chunk: AudioChunk): number {
+  return chunk instanceof Blob ? chunk.size : chunk.byteLength;
+}
+
+export class AudioChunkQueue {
+  private items: QueuedChunk[] = [];
+  private queuedBytes = 0;
+  private dropped = { chunks: 0, bytes: 0, ms: 0 };
+  private options: AudioQueueOptions;
+
+  constructor(options: Partial<AudioQueueOptions> = {}) {
+    this.options = { ...DEFAULT_AUDIO_QUEUE_OPTIONS, ...options };
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  push(chunk: AudioChunk, durationMs = 0): void {
+    const bytes = chunkSize(chunk);
+    this.items.push({ chunk, bytes, durationMs, enqueuedAt: Date.now() });
+    this.queuedBytes += bytes;
+    this.evict();
+  }
+
+  /**
+   * Remove and return every chunk still within the caps, oldest first.
+   */
+  drain(): AudioChunk[] {
+    this.evict();
+    const chunks = this.items.map((item) => item.chunk);
+    this.items = [];
+    this.queuedBytes = 0;
+    return chunks;
+  }
+
+  clear(): void {
+    this.items = [];
+    this.queuedBytes = 0;
+  }
+
+  get stats(): AudioQueueStats {
+    return {
+      queuedChunks: this.items.length,
+      queuedBytes: this.queuedBytes,
+      droppedChunks: this.dropped.chunks,
+      droppedBytes: this.dropped.bytes,
+      droppedMs: this.dropped.ms,
+    };
+  }
+
+  private evict(): void {
+    const cutoff = Date.now() - this.options.maxSeconds * 1000;
+    while (
+      this.items.length > 0 &&
+      (this.queuedBytes > this.options.maxBytes || this.items[0].enqueuedAt < cutoff)
+    ) {
+      const oldest = this.items.shift()!;
+      this.queuedBytes -= oldest.bytes;
+      this.dropped.chunks += 1;
+      this.dropped.bytes += oldest.bytes;
+      this.dropped.ms += oldest.durationMs;
+    }
+  }
+}
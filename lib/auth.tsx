@@ -8,6 +8,9 @@
  *
  * The token is stored in both localStorage (for API calls) and a cookie
  * named "relay_token" (for Next.js middleware route protection).
+ *
+ * When the API rejects the stored token, the provider logs out and sends
+ * the user to /login?redirect=<current page>, unless the page is public.
  */
 
 import React, {
@@ -17,6 +20,7 @@ import React, {
   useState,
   useCallback,
 } from "react";
+import { useRouter } from "next/navigation";
 import {
   getToken,
   setToken,
@@ -24,7 +28,9 @@ import {
   loginCompany,
   registerCompany,
   getMe,
+  setUnauthorizedHandler,
 } from "@/lib/api";
+import { queryCache } from "@/lib/query";
 import type { AuthUser } from "@/types";
 
 // ── Cookie helpers ────────────────────────────────────────────────────────────
@@ -38,6 +44,19 @@ function deleteCookie(name: string): void {
   document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/`;
 }
 
+// ── Public pages ──────────────────────────────────────────────────────────────
+
+// Pages that work without a company session: an expired token there is
+// cleared silently instead of bouncing the visitor to /login.
+const PUBLIC_PATHS = ["/join", "/login", "/signup"];
+
+function isPublicLocation(): boolean {
+  const { pathname, search } = window.location;
+  if (PUBLIC_PATHS.some((p) => pathname.startsWith(p))) return true;
+  // Participants enter rooms with a participantId instead of an account
+  return pathname.startsWith("/room/") && new URLSearchParams(search).has("participantId");
+}
+
 // ── Context shape ─────────────────────────────────────────────────────────────
 
 interface AuthContextValue {
@@ -56,6 +75,7 @@ const AuthContext = createContext<AuthContextValue | null>(null);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const router = useRouter();
 
   // On mount, try to restore session from stored token
   useEffect(() => {
@@ -92,9 +112,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const logout = useCallback(() => {
     clearToken();
     deleteCookie("relay_token");
+    queryCache.clear();
     setUser(null);
   }, []);
 
+  // Expired or revoked token → log out and send the user back to /login
+  useEffect(() => {
+    return setUnauthorizedHandler(() => {
+      logout();
+      if (isPublicLocation()) return;
+      const { pathname, search } = window.location;
+      router.replace(`/login?redirect=${encodeURIComponent(pathname + search)}`);
+    });
+  }, [logout, router]);
+
   return (
     <AuthContext.Provider
       value={{
@@ -0,0 +1,63 @@
+/**
+ * Client-side feature flags.
+ *
+ * Flags default from NEXT_PUBLIC_* env vars at build time and can be
+ * overridden per page load with a query parameter for A/B comparisons.
+ */
+
+/**
+ * How microphone audio is captured for speech-to-text:
+ * - "recorder": MediaRecorder WebM/Opus chunks every 2 s (legacy)
+ * - "worklet": AudioWorklet 16 kHz PCM frames (see lib/audio/pcmCapture.ts)
+ */
+export type SttCaptureMode = "recorder" | "worklet";
+
+const STT_CAPTURE_MODES: SttCaptureMode[] = ["recorder", "worklet"];
+
+function isSttCaptureMode(value: unknown): value is SttCaptureMode {
+  return STT_CAPTURE_MODES.includes(value as SttCaptureMode);
+}
+
+/** Resolve the capture mode; `override` is the `?capture=` query param. */
+export function resolveSttCaptureMode(override?: string | null): SttCaptureMode {
+  if (isSttCaptureMode(override)) return override;
+  const fromEnv = process.env.NEXT_PUBLIC_STT_CAPTURE_MODE;
+  return isSttCaptureMode(fromEnv) ? fromEnv : "recorder";
+}
+
+export interface SttVadConfig {
+  enabled: boolean;
+  // Only set when overridden, so VadGate defaults apply otherwise
+  options: { preRollMs?: number; postRollMs?: number };
+}
+
+function parseMs(value: string | undefined): number | undefined {
+  const ms = Number(value);
+  return value && Number.isFinite(ms) && ms >= 0 ? ms : undefined;
+}
+
+/**
+ * Resolve voice-activity gating for STT audio (see lib/audio/vad.ts);
+ * `override` is the `?vad=on|off` query param. Enabled by default.
+ */
+export function resolveSttVadConfig(override?: string | null): SttVadConfig {
+  const flag = override === "on" || override === "off" ? override : process.env.NEXT_PUBLIC_STT_VAD;
+  const options: SttVadConfig["options"] = {};
+  const preRollMs = parseMs(process.env.NEXT_PUBLIC_STT_VAD_PRE_ROLL_MS);
+  const postRollMs = parseMs(process.env.NEXT_PUBLIC_STT_VAD_POST_ROLL_MS);
+  if (preRollMs !== undefined) options.preRollMs = preRollMs;
+  if (postRollMs !== undefined) options.postRollMs = postRollMs;
+  return { enabled: flag !== "off", options };
+}
+
+/**
+ * Whether hosts get the mute, mute-all, remove and lock actions, which
+ * need the moderation endpoints (setMeetingLocked and friends in
+ * lib/api.ts) on the backend; `override` is the `?moderation=on|off` query
+ * param. Off by default until every deployment serves them — ending the
+ * session for everyone is always available.
+ */
+export function resolveHostModeration(override?: string | null): boolean {
+  const flag = override === "on" || override === "off" ? override : process.env.NEXT_PUBLIC_HOST_MODERATION;
+  return flag === "on";
+}
@@ -0,0 +1,147 @@
+/**
+ * API error types and helpers.
+ *
+ * apiFetch throws an ApiError for every non-2xx response. The backend is
+ * FastAPI, so `detail` is either a string or — for 422 responses — an array
+ * of validation issues whose `loc` points at the offending field.
+ * Timeouts and network failures are reported with status 0.
+ */
+
+export interface ValidationIssue {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+}
+
+export type ApiErrorDetail = string | ValidationIssue[] | Record<string, unknown> | null;
+
+// Leading loc segments that name the request part rather than the field
+const LOC_PREFIXES = new Set(["body", "query", "path", "header", "cookie"]);
+
+function isValidationIssues(detail: unknown): detail is ValidationIssue[] {
+  return (
+    Array.isArray(detail) &&
+    detail.every(
+      (d) => d && typeof d === "object" && Array.isArray(d.loc) && typeof d.msg === "string"
+    )
+  );
+}
+
+// List indexes are dropped, so `allowed_languages.0` is reported against
+// the allowed_languages field itself
+function fieldName(loc: (string | number)[]): string {
+  const parts = loc[0] !== undefined && LOC_PREFIXES.has(String(loc[0])) ? loc.slice(1) : loc;
+  return parts
+    .filter((part) => typeof part !== "number")
+    .map(String)
+    .join(".");
+}
+
+function defaultCode(status: number): string {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  if (status === 422) return "validation_error";
+  if (status >= 500) return "server_error";
+  return "http_error";
+}
+
+function describeDetail(status: number, detail: ApiErrorDetail): string {
+  if (typeof detail === "string" && detail) return detail;
+  if (isValidationIssues(detail)) {
+    return detail
+      .map((issue) => {
+        const field = fieldName(issue.loc);
+        return field ? `${field}: ${issue.msg}` : issue.msg;
+      })
+      .join("; ");
+  }
+  return `HTTP ${status}`;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly detail: ApiErrorDetail;
+  readonly path: string;
+
+  constructor(status: number, path: string, detail: ApiErrorDetail = null, code?: string) {
+    super(describeDetail(status, detail));
+    this.name = "ApiError";
+    this.status = status;
+    this.path = path;
+    this.detail = detail;
+    this.code = code ?? defaultCode(status);
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  get validationIssues(): ValidationIssue[] {
+    return isValidationIssues(this.detail) ? this.detail : [];
+  }
+
+  /**
+   * Map of field name → first validation message for that field.
+   * Issues that don't point at a field are keyed by "".
+   */
+  get fieldErrors(): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const issue of this.validationIssues) {
+      const field = fieldName(issue.loc);
+      if (!(field in fields)) fields[field] = issue.msg;
+    }
+    return fields;
+  }
+}
+
+// ── Form helpers ──────────────────────────────────────────────────────────────
+
+export interface FormErrors {
+  /** Banner message, or null when every issue is shown next to a field */
+  message: string | null;
+  /** Messages for the fields the form renders, keyed by field name */
+  fields: Record<string, string>;
+}
+
+/**
+ * Split an error into per-field messages for the fields a form knows about
+ * and a banner message for everything else.
+ */
+export function toFormErrors(
+  err: unknown,
+  fallback: string,
+  knownFields: readonly string[] = []
+): FormErrors {
+  if (!(err instanceof ApiError)) {
+    return { message: err instanceof Error ? err.message : fallback, fields: {} };
+  }
+
+  const issues = err.validationIssues;
+  if (issues.length === 0) {
+    return { message: err.message || fallback, fields: {} };
+  }
+
+  const fields: Record<string, string> = {};
+  const rest: string[] = [];
+  for (const [field, msg] of Object.entries(err.fieldErrors)) {
+    if (knownFields.includes(field)) fields[field] = msg;
+    else rest.push(field ? `${field}: ${msg}` : msg);
+  }
+  return { message: rest.length > 0 ? rest.join("; ") : null, fields };
+}
+
+export function getErrorMessage(err: unknown, fallback: string): string {
+  return toFormErrors(err, fallback).message ?? fallback;
+}
+
+/** True when a request was cancelled through its AbortSignal. */
+export function isAbortError(err: unknown): boolean {
+  return (
+    typeof err === "object" &&
+    err !== null &&
+    (err as { name?: unknown }).name === "AbortError"
+  );
+}
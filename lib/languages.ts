@@ -0,0 +1,45 @@
+/**
+ * Language helpers built on SUPPORTED_LANGUAGES.
+ */
+
+import { SUPPORTED_LANGUAGES } from "@/types";
+import type { Meeting } from "@/types";
+
+export interface LanguageOption {
+  code: string;
+  label: string;
+}
+
+export function languageLabel(code: string): string {
+  return SUPPORTED_LANGUAGES.find((l) => l.code === code)?.label ?? code.toUpperCase();
+}
+
+/**
+ * The languages a meeting offers, in the order the host listed them.
+ * Meetings created without a list allow every supported language.
+ */
+export function meetingLanguages(meeting: Pick<Meeting, "allowed_languages"> | null): LanguageOption[] {
+  const codes = meeting?.allowed_languages ?? [];
+  if (codes.length === 0) return SUPPORTED_LANGUAGES;
+  return Array.from(new Set(codes)).map((code) => ({ code, label: languageLabel(code) }));
+}
+
+/** First candidate that the options allow, else the first option. */
+export function pickLanguage(
+  candidates: (string | null | undefined)[],
+  options: LanguageOption[]
+): string | null {
+  const match = candidates.find((code) => code && isLanguageAllowed(code, options));
+  return match ?? options[0]?.code ?? null;
+}
+
+/** Base language codes from the browser's locale list, most preferred first. */
+export function browserLanguages(): string[] {
+  if (typeof navigator === "undefined") return [];
+  const tags = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return Array.from(new Set(tags.filter(Boolean).map((tag) => tag.split("-")[0].toLowerCase())));
+}
+
+export function isLanguageAllowed(code: string, options: LanguageOption[]): boolean {
+  return options.some((o) => o.code === code);
+}
@@ -0,0 +1,334 @@
+"use client";
+
+/**
+ * Minimal query cache on top of lib/api.ts.
+ *
+ * - Entries are keyed by a JSON-serialisable array, e.g. ["participants", id]
+ * - useQuery() returns cached data immediately and revalidates it in the
+ *   background once it is older than `staleTime` (stale-while-revalidate)
+ * - Concurrent fetches of the same key share one request
+ * - mutateOptimistic() applies a local update, runs the mutation and rolls
+ *   it back if the mutation fails
+ *
+ * Fetchers receive `{ signal }`, so the endpoint helpers from lib/api.ts can
+ * be passed directly: useQuery(queryKeys.meetings, listMeetings).
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import { isAbortError } from "@/lib/errors";
+
+export type QueryKey = readonly unknown[];
+export type QueryFetcher<T> = (options: { signal: AbortSignal }) => Promise<T>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number; // 0 = never fetched or invalidated
+  isFetching: boolean;
+}
+
+interface QueryEntry {
+  state: QueryState<unknown>;
+  listeners: Set<() => void>;
+  promise: Promise<unknown> | null;
+  controller: AbortController | null;
+  fetcher: QueryFetcher<unknown> | null;
+}
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+};
+
+export const DEFAULT_STALE_TIME_MS = 30_000;
+
+function hashKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+// ── Cache ─────────────────────────────────────────────────────────────────────
+
+export class QueryCache {
+  private entries = new Map<string, QueryEntry>();
+
+  private entry(key: QueryKey): QueryEntry {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = {
+        state: EMPTY_STATE,
+        listeners: new Set(),
+        promise: null,
+        controller: null,
+        fetcher: null,
+      };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private update(entry: QueryEntry, patch: Partial<QueryState<unknown>>): void {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+  }
+
+  getData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  isStale(key: QueryKey, staleTime: number): boolean {
+    const { updatedAt } = this.getState(key);
+    return updatedAt === 0 || Date.now() - updatedAt > staleTime;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch `key`, joining the in-flight request if there is one.
+   * Errors are stored on the entry and also rethrown to the caller.
+   */
+  fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T> {
+    const entry = this.entry(key);
+    entry.fetcher = fetcher as QueryFetcher<unknown>;
+    if (entry.promise) return entry.promise as Promise<T>;
+
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.update(entry, { isFetching: true });
+
+    const promise = fetcher({ signal: controller.signal })
+      .then((data) => {
+        if (entry.controller === controller) {
+          this.update(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        }
+        return data;
+      })
+      .catch((err) => {
+        if (entry.controller === controller) {
+          this.update(entry, {
+            error: isAbortError(err) ? entry.state.error : err,
+            isFetching: false,
+          });
+        }
+        throw err;
+      })
+      .finally(() => {
+        if (entry.controller === controller) {
+          entry.promise = null;
+          entry.controller = null;
+        }
+      });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  /** Return fresh cached data, or fetch it. */
+  async ensure<T>(
+    key: QueryKey,
+    fetcher: QueryFetcher<T>,
+    staleTime: number = DEFAULT_STALE_TIME_MS
+  ): Promise<T> {
+    if (!this.isStale(key, staleTime)) return this.getData<T>(key) as T;
+    return this.fetch(key, fetcher);
+  }
+
+  /**
+   * Replace the cached data for `key`. Cancels an in-flight fetch so a
+   * response issued before this write can't overwrite it.
+   */
+  setData<T>(key: QueryKey, updater: T | ((prev: T | undefined) => T)): void {
+    const entry = this.entry(key);
+    const data =
+      typeof updater === "function"
+        ? (updater as (prev: T | undefined) => T)(entry.state.data as T | undefined)
+        : updater;
+    if (entry.controller) {
+      entry.controller.abort();
+      entry.controller = null;
+      entry.promise = null;
+    }
+    this.update(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+  }
+
+  /**
+   * Mark every entry whose key starts with `prefix` as stale and refetch the
+   * ones that are currently rendered.
+   */
+  invalidate(prefix: QueryKey): void {
+    for (const [hash, entry] of this.entries) {
+      const key = JSON.parse(hash) as unknown[];
+      if (!prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]))) continue;
+      this.update(entry, { updatedAt: 0 });
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(key, entry.fetcher).catch(() => {
+          // Error is stored on the entry
+        });
+      }
+    }
+  }
+
+  /** Drop everything — used on logout so one account never sees another's data. */
+  clear(): void {
+    for (const entry of this.entries.values()) {
+      entry.controller?.abort();
+      entry.controller = null;
+      entry.promise = null;
+      this.update(entry, EMPTY_STATE);
+    }
+  }
+}
+
+export const queryCache = new QueryCache();
+
+/**
+ * Apply `optimistic` to the cached data immediately, then run `mutation`.
+ * On success the server result is merged with `reconcile` (if given). On
+ * failure the error is rethrown after undoing the update: with `rollback`
+ * applied to whatever the entry holds by then, or else by restoring the
+ * previous data — but only if nothing (another mutation, a refetch) has
+ * replaced the optimistic value meanwhile. Either way the key is
+ * revalidated in the background afterwards.
+ */
+export async function mutateOptimistic<T, R>(
+  key: QueryKey,
+  optimistic: (prev: T | undefined) => T,
+  mutation: () => Promise<R>,
+  reconcile?: (current: T | undefined, result: R) => T,
+  rollback?: (current: T | undefined) => T
+): Promise<R> {
+  const snapshot = queryCache.getData<T>(key);
+  queryCache.setData<T>(key, optimistic);
+  const applied = queryCache.getData<T>(key);
+  try {
+    const result = await mutation();
+    if (reconcile) {
+      queryCache.setData<T>(key, (current) => reconcile(current, result));
+    }
+    return result;
+  } catch (err) {
+    if (rollback) {
+      queryCache.setData<T>(key, rollback);
+    } else if (queryCache.getData<T>(key) === applied) {
+      queryCache.setData<T | undefined>(key, snapshot);
+    }
+    throw err;
+  } finally {
+    queryCache.invalidate(key);
+  }
+}
+
+// ── Hook ──────────────────────────────────────────────────────────────────────
+
+export interface QueryOptions {
+  enabled?: boolean; // default true
+  staleTime?: number; // ms before cached data is revalidated
+  refetchInterval?: number; // ms — polling, paused while the tab is hidden
+  refetchOnFocus?: boolean; // default true
+}
+
+export interface QueryResult<T> extends QueryState<T> {
+  isLoading: boolean; // no data yet and a fetch is pending
+  refetch: () => Promise<T>;
+}
+
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  {
+    enabled = true,
+    staleTime = DEFAULT_STALE_TIME_MS,
+    refetchInterval,
+    refetchOnFocus = true,
+  }: QueryOptions = {}
+): QueryResult<T> {
+  const hash = hashKey(key);
+  // Callers pass inline arrays — re-derive a key that's stable per hash
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  // Latest fetcher without making it an effect dependency
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(stableKey, listener),
+    [stableKey]
+  );
+  const state = useSyncExternalStore(
+    subscribe,
+    () => queryCache.getState<T>(stableKey),
+    () => EMPTY_STATE as QueryState<T>
+  );
+
+  const revalidate = useCallback(
+    (force: boolean) => {
+      if (!force && !queryCache.isStale(stableKey, staleTime)) return;
+      queryCache.fetch(stableKey, fetcherRef.current).catch(() => {
+        // Error is stored on the entry
+      });
+    },
+    [stableKey, staleTime]
+  );
+
+  // Mount / key change
+  useEffect(() => {
+    if (enabled) revalidate(false);
+  }, [enabled, revalidate]);
+
+  // Polling
+  useEffect(() => {
+    if (!enabled || !refetchInterval) return;
+    const timer = setInterval(() => {
+      if (document.visibilityState === "visible") revalidate(true);
+    }, refetchInterval);
+    return () => clearInterval(timer);
+  }, [enabled, refetchInterval, revalidate]);
+
+  // Window focus
+  useEffect(() => {
+    if (!enabled || !refetchOnFocus) return;
+    const onFocus = () => {
+      if (document.visibilityState === "visible") revalidate(false);
+    };
+    window.addEventListener("focus", onFocus);
+    document.addEventListener("visibilitychange", onFocus);
+    return () => {
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("visibilitychange", onFocus);
+    };
+  }, [enabled, refetchOnFocus, revalidate]);
+
+  const refetch = useCallback(
+    () => queryCache.fetch(stableKey, fetcherRef.current),
+    [stableKey]
+  );
+
+  return {
+    ...state,
+    isLoading: enabled && state.data === undefined && state.error === null,
+    refetch,
+  };
+}
+
+// ── Relay query keys ──────────────────────────────────────────────────────────
+
+export const queryKeys = {
+  meetings: ["meetings"] as const,
+  company: ["company", "me"] as const,
+  meetingByCode: (code: string) => ["meeting", "code", code] as const,
+  participants: (meetingId: string) => ["participants", meetingId] as const,
+};
@@ -0,0 +1,86 @@
+/**
+ * The room's caption list as the socket delivers it.
+ *
+ * Interim hypotheses (transcript_partial) appear as a live line keyed by
+ * utterance_id and are rewritten as the speaker goes on. When the final
+ * transcript for that utterance arrives it replaces the line in place, so
+ * captions don't jump around; translation_update fills in languages for
+ * either kind as they come back.
+ */
+
+import type {
+  PartialTranscriptMessage,
+  TranscriptMessage,
+  TranslationUpdateMessage,
+} from "@/types";
+
+export interface LiveTranscript extends Omit<TranscriptMessage, "type"> {
+  key: string; // utterance_id when the server sends one
+  isFinal: boolean;
+}
+
+let fallbackKey = 0;
+
+function finalKey(msg: TranscriptMessage): string {
+  if (msg.utterance_id) return msg.utterance_id;
+  if (msg.seq !== undefined) return `seq-${msg.seq}`;
+  fallbackKey += 1;
+  return `final-${fallbackKey}`;
+}
+
+export function applyPartial(list: LiveTranscript[], msg: PartialTranscriptMessage): LiveTranscript[] {
+  const index = list.findIndex((t) => t.key === msg.utterance_id);
+  const existing = index === -1 ? null : list[index];
+  // A partial that arrives after its final is stale
+  if (existing?.isFinal) return list;
+
+  const entry: LiveTranscript = {
+    key: msg.utterance_id,
+    isFinal: false,
+    utterance_id: msg.utterance_id,
+    speaker_id: msg.speaker_id,
+    speaker_name: msg.speaker_name,
+    original_text: msg.text,
+    original_language: msg.language,
+    translations: existing?.translations ?? {},
+    // Keep the time the utterance started
+    timestamp: existing?.timestamp ?? msg.timestamp,
+  };
+  if (index === -1) return [...list, entry];
+  const next = list.slice();
+  next[index] = entry;
+  return next;
+}
+
+export function applyFinal(list: LiveTranscript[], msg: TranscriptMessage): LiveTranscript[] {
+  const key = finalKey(msg);
+  const index = list.findIndex((t) => t.key === key);
+  const entry: LiveTranscript = {
+    seq: msg.seq,
+    utterance_id: msg.utterance_id,
+    speaker_id: msg.speaker_id,
+    speaker_name: msg.speaker_name,
+    original_text: msg.original_text,
+    original_language: msg.original_language,
+    timestamp: msg.timestamp,
+    key,
+    isFinal: true,
+    // Translations that streamed in for the partial fill any gaps
+    translations: { ...(index === -1 ? {} : list[index].translations), ...msg.translations },
+  };
+  if (index === -1) return [...list, entry];
+  const next = list.slice();
+  next[index] = entry;
+  return next;
+}
+
+export function applyTranslation(list: LiveTranscript[], msg: TranslationUpdateMessage): LiveTranscript[] {
+  const index = list.findIndex((t) => t.key === msg.utterance_id);
+  if (index === -1) return list;
+  const next = list.slice();
+  next[index] = {
+    ...list[index],
+    translations: { ...list[index].translations, [msg.language]: msg.text },
+  };
+  return next;
+}
@@ -0,0 +1,52 @@
+/**
+ * Per-uid network quality from Agora.
+ *
+ * The "network-quality" event reports our own uplink/downlink every ~2 s;
+ * at the same moment getRemoteNetworkQuality() gives the figures for each
+ * remote user we're subscribed to. Agora's 0–6 scale (0 unknown, 1
+ * excellent … 5 very bad, 6 down) is bucketed for the tile badges.
+ */
+
+import type { NetworkQuality } from "agora-rtc-sdk-ng";
+
+export type QualityLevel = "unknown" | "good" | "fair" | "poor" | "down";
+
+export interface LinkQuality {
+  uplink: QualityLevel;
+  downlink: QualityLevel;
+}
+
+export type NetworkQualityMap = Record<number, LinkQuality>; // uid → quality
+
+export const EMPTY_NETWORK_QUALITY: NetworkQualityMap = {};
+
+export function qualityLevel(value: number): QualityLevel {
+  if (value <= 0) return "unknown";
+  if (value <= 2) return "good";
+  if (value <= 3) return "fair";
+  if (value <= 5) return "poor";
+  return "down";
+}
+
+export function linkQuality(q: NetworkQuality): LinkQuality {
+  return { uplink: qualityLevel(q.uplinkNetworkQuality), downlink: qualityLevel(q.downlinkNetworkQuality) };
+}
+
+/** The worse of the two directions, for a single badge. */
+export function overallQuality({ uplink, downlink }: LinkQuality): QualityLevel {
+  const order: QualityLevel[] = ["unknown", "good", "fair", "poor", "down"];
+  return order[Math.max(order.indexOf(uplink), order.indexOf(downlink))];
+}
+
+export function nextNetworkQuality(
+  localUid: number,
+  local: NetworkQuality,
+  remote: Record<string, NetworkQuality>
+): NetworkQualityMap {
+  const map: NetworkQualityMap = { [localUid]: linkQuality(local) };
+  for (const [uid, q] of Object.entries(remote)) {
+    const n = Number(uid);
+    if (Number.isFinite(n)) map[n] = linkQuality(q);
+  }
+  return map;
+}
@@ -0,0 +1,133 @@
+/**
+ * One presence entry per person in the room.
+ *
+ * Relay participants (from the API) carry the name, language and role;
+ * Agora remote users say who is actually connected to the voice channel and
+ * publishing. Every participant joins Agora with a uid derived from their
+ * Participant.id, which is how the two are matched up. Agora users with no
+ * matching participant (e.g. an older client joining with uid 0) are kept as
+ * anonymous guests rather than dropped.
+ *
+ * Audio levels and network quality, both reported by Agora per uid, are
+ * folded in the same way.
+ */
+
+import type { IAgoraRTCRemoteUser, UID } from "agora-rtc-sdk-ng";
+import { EMPTY_NETWORK_QUALITY } from "@/lib/room/networkQuality";
+import type { LinkQuality, NetworkQualityMap } from "@/lib/room/networkQuality";
+import { EMPTY_SPEAKER_LEVELS } from "@/lib/room/speakers";
+import type { SpeakerLevels } from "@/lib/room/speakers";
+import type { Participant } from "@/types";
+
+export interface PresenceEntry {
+  key: string;
+  participantId: string | null; // null for unmatched Agora users
+  uid: number | null; // Agora uid, when known
+  name: string;
+  language: string | null;
+  isHost: boolean;
+  isSelf: boolean;
+  inChannel: boolean; // connected to the voice channel
+  hasAudio: boolean; // publishing a mic track
+  level: number; // 0–100 from the last volume report
+  isActiveSpeaker: boolean;
+  network: LinkQuality | null; // null until Agora has reported on them
+  color: string; // tile color, reused to tag this person's transcripts
+}
+
+// Distinguishable on both white and gray backgrounds
+const SPEAKER_COLORS = ["#5048E5", "#0EA5E9", "#10B981", "#F59E0B", "#EF4444", "#EC4899", "#8B5CF6", "#14B8A6"];
+
+export function speakerColor(key: string): string {
+  return SPEAKER_COLORS[agoraUidFor(key) % SPEAKER_COLORS.length];
+}
+
+/**
+ * Deterministic Agora uid for a participant: 32-bit FNV-1a of the id,
+ * mapped into Agora's valid range 1..2^32-1 (0 means "assign one for me").
+ */
+export function agoraUidFor(participantId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < participantId.length; i++) {
+    hash ^= participantId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash % 0xfffffffe) + 1;
+}
+
+function uidNumber(uid: UID): number | null {
+  const n = typeof uid === "number" ? uid : Number(uid);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * The company that owns the meeting. Its host joins as a registered
+ * participant under the company's name; for our own entry the session
+ * says whether we are that company.
+ */
+export interface MeetingOwner {
+  name: string | null; // Meeting.host_name
+  isSelf: boolean;
+}
+
+export function mergePresence(
+  participants: Participant[],
+  remoteUsers: IAgoraRTCRemoteUser[],
+  selfId: string | null,
+  owner: MeetingOwner,
+  speakers: SpeakerLevels = EMPTY_SPEAKER_LEVELS,
+  network: NetworkQualityMap = EMPTY_NETWORK_QUALITY
+): PresenceEntry[] {
+  const levelOf = (uid: number) => speakers.levels[uid] ?? 0;
+  const networkOf = (uid: number) => network[uid] ?? null;
+
+  const remoteByUid = new Map<number, IAgoraRTCRemoteUser>();
+  for (const user of remoteUsers) {
+    const uid = uidNumber(user.uid);
+    if (uid !== null) remoteByUid.set(uid, user);
+  }
+
+  const entries: PresenceEntry[] = participants.map((p) => {
+    const uid = agoraUidFor(p.id);
+    const remote = remoteByUid.get(uid);
+    remoteByUid.delete(uid);
+    const isSelf = p.id === selfId;
+    return {
+      key: p.id,
+      participantId: p.id,
+      uid,
+      name: p.name,
+      language: p.preferred_language,
+      isHost: isSelf ? owner.isSelf : p.is_registered && !!owner.name && p.name === owner.name,
+      isSelf,
+      // We are in the channel by definition; others once Agora reports them
+      inChannel: isSelf || !!remote,
+      hasAudio: !!remote?.hasAudio,
+      level: levelOf(uid),
+      isActiveSpeaker: speakers.activeUid === uid,
+      network: networkOf(uid),
+      color: speakerColor(p.id),
+    };
+  });
+
+  for (const [uid, remote] of remoteByUid) {
+    entries.push({
+      key: `agora-${uid}`,
+      participantId: null,
+      uid,
+      name: "Guest",
+      language: null,
+      isHost: false,
+      isSelf: false,
+      inChannel: true,
+      hasAudio: remote.hasAudio,
+      level: levelOf(uid),
+      isActiveSpeaker: speakers.activeUid === uid,
+      network: networkOf(uid),
+      color: speakerColor(`agora-${uid}`),
+    });
+  }
+
+  // Host first, then by name
+  return entries.sort((a, b) => Number(b.isHost) - Number(a.isHost) || a.name.localeCompare(b.name));
+}
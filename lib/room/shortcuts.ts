@@ -0,0 +1,92 @@
+/**
+ * Keyboard shortcuts in the room. The list drives both the key handling
+ * (useRoomShortcuts) and the help overlay, so they can't drift apart.
+ *
+ * Shortcuts are single keys without Ctrl/Cmd/Alt, and are ignored while
+ * typing in a form field.
+ */
+
+export type RoomShortcutAction =
+  | "pushToTalk" // held, not pressed
+  | "toggleMute"
+  | "togglePushToTalk"
+  | "nextLanguage"
+  | "previousLanguage"
+  | "jumpToLatest"
+  | "leave"
+  | "help"
+  | "dismiss";
+
+export interface RoomShortcut {
+  action: RoomShortcutAction;
+  keys: string[]; // as shown in the help overlay
+  description: string;
+  matches: (event: KeyboardEvent) => boolean;
+}
+
+export const ROOM_SHORTCUTS: RoomShortcut[] = [
+  {
+    action: "pushToTalk",
+    keys: ["Space"],
+    description: "Hold to talk (push-to-talk mode)",
+    matches: (e) => e.code === "Space",
+  },
+  {
+    action: "toggleMute",
+    keys: ["M"],
+    description: "Mute / unmute",
+    matches: (e) => e.key.toLowerCase() === "m",
+  },
+  {
+    action: "togglePushToTalk",
+    keys: ["P"],
+    description: "Turn push-to-talk on or off",
+    matches: (e) => e.key.toLowerCase() === "p",
+  },
+  {
+    action: "nextLanguage",
+    keys: ["T"],
+    description: "Next transcript language",
+    matches: (e) => e.key === "t",
+  },
+  {
+    action: "previousLanguage",
+    keys: ["Shift", "T"],
+    description: "Previous transcript language",
+    matches: (e) => e.key === "T",
+  },
+  {
+    action: "jumpToLatest",
+    keys: ["J"],
+    description: "Jump to the latest transcript",
+    matches: (e) => e.key.toLowerCase() === "j" || e.key === "End",
+  },
+  {
+    action: "leave",
+    keys: ["L"],
+    description: "Leave the session",
+    matches: (e) => e.key.toLowerCase() === "l",
+  },
+  {
+    action: "help",
+    keys: ["?"],
+    description: "Show keyboard shortcuts",
+    matches: (e) => e.key === "?",
+  },
+  {
+    action: "dismiss",
+    keys: ["Esc"],
+    description: "Close this panel",
+    matches: (e) => e.key === "Escape",
+  },
+];
+
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
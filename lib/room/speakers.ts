@@ -0,0 +1,48 @@
+/**
+ * Per-uid audio levels and the active speaker, fed by Agora's
+ * "volume-indicator" event (every ~2 s, levels 0–100, local user included).
+ *
+ * The active speaker only changes when someone is clearly louder than the
+ * current one, or the current one goes quiet, so the highlight doesn't
+ * flicker between people talking over each other.
+ */
+
+export interface SpeakerLevels {
+  levels: Record<number, number>; // uid → 0–100
+  activeUid: number | null;
+}
+
+export const EMPTY_SPEAKER_LEVELS: SpeakerLevels = { levels: {}, activeUid: null };
+
+export const SPEAKING_LEVEL = 5; // below this a uid counts as silent
+const TAKEOVER_MARGIN = 10; // how much louder a new speaker must be
+
+export interface VolumeReport {
+  uid: number | string;
+  level: number;
+}
+
+export function nextSpeakerLevels(prev: SpeakerLevels, report: VolumeReport[]): SpeakerLevels {
+  const levels: Record<number, number> = {};
+  for (const { uid, level } of report) {
+    const n = Number(uid);
+    if (Number.isFinite(n)) levels[n] = Math.max(0, Math.min(100, Math.round(level)));
+  }
+
+  let loudest: number | null = null;
+  for (const [uid, level] of Object.entries(levels)) {
+    if (level >= SPEAKING_LEVEL && (loudest === null || level > levels[loudest])) {
+      loudest = Number(uid);
+    }
+  }
+
+  let activeUid = prev.activeUid;
+  const currentLevel = activeUid === null ? 0 : levels[activeUid] ?? 0;
+  if (currentLevel < SPEAKING_LEVEL) {
+    activeUid = loudest;
+  } else if (loudest !== null && levels[loudest] >= currentLevel + TAKEOVER_MARGIN) {
+    activeUid = loudest;
+  }
+
+  return { levels, activeUid };
+}
@@ -0,0 +1,62 @@
+/**
+ * Idempotent, ordered cleanup for a meeting session.
+ *
+ * Each room hook registers what it created (sockets, tracks, audio graphs)
+ * on a child scope of the session's Teardown. Running the session teardown —
+ * from "Leave", unmount, or both — releases everything exactly once, newest
+ * first, so capture stops before the socket closes and the Agora client
+ * leaves before the participant is marked as gone.
+ */
+
+export type TeardownStep = () => void | Promise<void>;
+
+export class Teardown {
+  private steps: TeardownStep[] = [];
+  private running: Promise<void> | null = null;
+
+  get isDone(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Register a cleanup step. Once the teardown has run, the step is executed
+   * immediately so late-arriving resources are still released.
+   */
+  add(step: TeardownStep): void {
+    if (this.running) {
+      runStep(step);
+      return;
+    }
+    this.steps.push(step);
+  }
+
+  /** A nested scope that runs (newest first) as part of this one. */
+  child(): Teardown {
+    const scope = new Teardown();
+    this.add(() => scope.run());
+    return scope;
+  }
+
+  /** Run every step once, newest first; later calls share the same run. */
+  run(): Promise<void> {
+    if (!this.running) {
+      const steps = this.steps.reverse();
+      this.steps = [];
+      this.running = (async () => {
+        for (const step of steps) {
+          await runStep(step);
+        }
+      })();
+    }
+    return this.running;
+  }
+}
+
+async function runStep(step: TeardownStep): Promise<void> {
+  try {
+    await step();
+  } catch (err) {
+    // Keep going — one failed release shouldn't leak the rest
+    console.warn("[Room] Teardown step failed:", err);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Search and speaker filter for the room's caption list.
+ *
+ * A query matches an utterance's original text or its translation in the
+ * reader's language — the two lines the panel shows — case-insensitively,
+ * so every match can be highlighted where it appears.
+ */
+
+import type { LiveTranscript } from "@/lib/room/liveTranscripts";
+
+export interface TranscriptFilter {
+  query: string;
+  speakerId: string | null; // null = everyone
+}
+
+export const EMPTY_TRANSCRIPT_FILTER: TranscriptFilter = { query: "", speakerId: null };
+
+export function isFilterActive(filter: TranscriptFilter): boolean {
+  return filter.query.trim() !== "" || filter.speakerId !== null;
+}
+
+export function filterTranscripts(
+  list: LiveTranscript[],
+  filter: TranscriptFilter,
+  language: string | null
+): LiveTranscript[] {
+  if (!isFilterActive(filter)) return list;
+  const needle = filter.query.trim().toLocaleLowerCase();
+  return list.filter((t) => {
+    if (filter.speakerId && t.speaker_id !== filter.speakerId) return false;
+    if (!needle) return true;
+    const translated = language ? t.translations[language] : undefined;
+    return (
+      t.original_text.toLocaleLowerCase().includes(needle) ||
+      (translated?.toLocaleLowerCase().includes(needle) ?? false)
+    );
+  });
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/** Split text around each occurrence of the query, for <mark>ing. */
+export function highlightParts(text: string, query: string): HighlightPart[] {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return [{ text, match: false }];
+  // Lower-casing can change lengths outside ASCII; then just don't highlight
+  const haystack = text.toLocaleLowerCase();
+  if (haystack.length !== text.length) return [{ text, match: false }];
+
+  const parts: HighlightPart[] = [];
+  let from = 0;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, from)) {
+    if (at > from) parts.push({ text: text.slice(from, at), match: false });
+    parts.push({ text: text.slice(at, at + needle.length), match: true });
+    from = at + needle.length;
+  }
+  if (from < text.length) parts.push({ text: text.slice(from), match: false });
+  return parts;
+}
+
+/** Everyone who has spoken so far, in order of their first caption. */
+export function transcriptSpeakers(list: LiveTranscript[]): { id: string; name: string }[] {
+  const seen = new Map<string, string>();
+  for (const t of list) {
+    if (!seen.has(t.speaker_id)) seen.set(t.speaker_id, t.speaker_name);
+  }
+  return [...seen].map(([id, name]) => ({ id, name }));
+}
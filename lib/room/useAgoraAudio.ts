@@ -0,0 +1,405 @@
+"use client";
+
+/**
+ * Agora voice for a meeting session: loads the SDK on the client, joins the
+ * channel, publishes the local microphone and plays remote users' audio.
+ * The client and track are released through the session's teardown.
+ *
+ * The mic and speaker follow the selected devices: changing micId switches
+ * the published track's device in place (setDevice) and changing speakerId
+ * moves every remote track's playback (setPlaybackDevice).
+ *
+ * Tokens expire (AgoraTokenResponse.expires_in). Agora warns ~30 s ahead
+ * with token-privilege-will-expire and the token is renewed in place,
+ * retrying until it works; if it lapses anyway (token-privilege-did-expire)
+ * the client rejoins the channel with a fresh token and republishes the mic.
+ *
+ * The same rejoin recovers from the network or server dropping the client;
+ * shorter outages are handled by Agora's own reconnect, after which the mic
+ * is republished if it didn't come back. Network quality for everyone in
+ * the channel is tracked for the tile badges (see networkQuality.ts).
+ *
+ * setRemoteVolume turns every remote track down together (ducking under
+ * spoken translations); users who publish later start at the same volume.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ConnectionState as AgoraConnectionState,
+  IAgoraRTCClient,
+  IAgoraRTCRemoteUser,
+  IMicrophoneAudioTrack,
+} from "agora-rtc-sdk-ng";
+import { getAgoraToken } from "@/lib/api";
+import { classifyMicError } from "@/lib/audio/devices";
+import type { MicFailure } from "@/lib/audio/devices";
+import { getErrorMessage, isAbortError } from "@/lib/errors";
+import { EMPTY_NETWORK_QUALITY, nextNetworkQuality } from "@/lib/room/networkQuality";
+import type { NetworkQualityMap } from "@/lib/room/networkQuality";
+import { agoraUidFor } from "@/lib/room/presence";
+import { EMPTY_SPEAKER_LEVELS, nextSpeakerLevels } from "@/lib/room/speakers";
+import type { SpeakerLevels } from "@/lib/room/speakers";
+import type { MeetingSession } from "@/lib/room/useMeetingSession";
+import type { AgoraTokenResponse } from "@/types";
+
+// Dynamic import AgoraRTC to avoid SSR issues
+let AgoraRTC: typeof import("agora-rtc-sdk-ng").default;
+
+async function loadAgoraSDK() {
+  if (!AgoraRTC) {
+    const sdk = await import("agora-rtc-sdk-ng");
+    AgoraRTC = sdk.default;
+  }
+  return AgoraRTC;
+}
+
+export type MediaPermission = "pending" | "granted" | "denied";
+
+export type VoiceStatus =
+  | "ok"
+  | "renewing" // fetching a new token before the current one lapses
+  | "renew-failed" // retrying every RECOVERY_RETRY_MS until it works or lapses
+  | "rejoining" // the token lapsed or the connection dropped; joining again
+  | "disconnected"; // rejoining failed REJOIN_ATTEMPTS times — call rejoin()
+
+const TOKEN_FETCH_RETRIES = 2;
+const RECOVERY_RETRY_MS = 10_000;
+const REJOIN_ATTEMPTS = 3;
+
+// Disconnects Agora won't recover from by itself but a fresh join can
+const REJOINABLE_REASONS = new Set<string>(["NETWORK_ERROR", "SERVER_ERROR"]);
+
+export interface AudioDeviceSelection {
+  micId: string | null; // null = browser default
+  speakerId: string | null;
+}
+
+export interface AgoraAudioOptions extends AudioDeviceSelection {
+  startMuted?: boolean; // publish the mic muted, e.g. for push-to-talk
+}
+
+export interface AgoraAudioResult {
+  localTrack: IMicrophoneAudioTrack | null;
+  /** Device the local track is capturing from; changes when it is switched. */
+  micId: string | null;
+  remoteUsers: IAgoraRTCRemoteUser[];
+  tokenData: AgoraTokenResponse | null;
+  connectionState: AgoraConnectionState;
+  voiceStatus: VoiceStatus;
+  rejoin: () => void;
+  networkQuality: NetworkQualityMap; // includes the local user under their own uid
+  mediaPermission: MediaPermission;
+  micFailure: MicFailure | null; // why the mic couldn't be opened, when denied
+  speakers: SpeakerLevels; // includes the local user under their own uid
+  isMuted: boolean;
+  setMuted: (muted: boolean) => Promise<void>;
+  setRemoteVolume: (volume: number) => void; // 0–100
+  error: string | null;
+}
+
+export function useAgoraAudio(
+  session: MeetingSession | null,
+  { micId, speakerId, startMuted = false }: AgoraAudioOptions
+): AgoraAudioResult {
+  const [localTrack, setLocalTrack] = useState<IMicrophoneAudioTrack | null>(null);
+  const [activeMicId, setActiveMicId] = useState<string | null>(null);
+  const [remoteUsers, setRemoteUsers] = useState<IAgoraRTCRemoteUser[]>([]);
+  const [tokenData, setTokenData] = useState<AgoraTokenResponse | null>(null);
+  const [connectionState, setConnectionState] = useState<AgoraConnectionState>("DISCONNECTED");
+  const [voiceStatus, setVoiceStatus] = useState<VoiceStatus>("ok");
+  const [networkQuality, setNetworkQuality] = useState<NetworkQualityMap>(EMPTY_NETWORK_QUALITY);
+  const [mediaPermission, setMediaPermission] = useState<MediaPermission>("pending");
+  const [micFailure, setMicFailure] = useState<MicFailure | null>(null);
+  const [speakers, setSpeakers] = useState<SpeakerLevels>(EMPTY_SPEAKER_LEVELS);
+  const [isMuted, setIsMuted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<IAgoraRTCClient | null>(null);
+  const rejoinRef = useRef<(() => Promise<void>) | null>(null);
+  const remoteVolumeRef = useRef(100);
+
+  // Devices at the time the track is created or a remote user subscribed
+  const devicesRef = useRef({ micId, speakerId });
+  useEffect(() => {
+    devicesRef.current = { micId, speakerId };
+  });
+  const startMutedRef = useRef(startMuted);
+  useEffect(() => {
+    startMutedRef.current = startMuted;
+  });
+
+  useEffect(() => {
+    if (!session) return;
+
+    const scope = session.teardown.child();
+    const controller = new AbortController();
+    const { signal } = controller;
+    scope.add(() => controller.abort());
+
+    const start = async () => {
+      // Load Agora SDK dynamically (client-side only)
+      const Agora = await loadAgoraSDK();
+      signal.throwIfAborted();
+
+      // A uid derived from the participant lets others map us back to a name
+      const fetchToken = () =>
+        getAgoraToken(session.meeting.id, agoraUidFor(session.participantId), "publisher", {
+          signal,
+          retries: TOKEN_FETCH_RETRIES,
+        });
+      const token = await fetchToken();
+      console.log("[Room] Token fetched:", { channel: token.channel, uid: token.uid, appId: token.app_id });
+      setTokenData(token);
+
+      // Use "rtc" mode for meetings where everyone can speak (not "live" which is for broadcasting)
+      const client = Agora.createClient({ mode: "rtc", codec: "vp8" });
+      clientRef.current = client;
+      scope.add(() => {
+        clientRef.current = null;
+        client.removeAllListeners();
+        // May already be disconnected
+        return client.leave().catch(() => {});
+      });
+
+      // Remote user objects are mutated by the SDK (hasAudio etc.), so
+      // every event stores a fresh array to re-render presence
+      const upsertRemoteUser = (remoteUser: IAgoraRTCRemoteUser) => {
+        setRemoteUsers((prev) => [...prev.filter((u) => u.uid !== remoteUser.uid), remoteUser]);
+      };
+
+      client.on("user-joined", (remoteUser) => {
+        console.log("[Room] Remote user joined:", { uid: remoteUser.uid });
+        upsertRemoteUser(remoteUser);
+      });
+
+      client.on("user-published", async (remoteUser, mediaType) => {
+        console.log("[Room] Remote user published:", { uid: remoteUser.uid, mediaType });
+        try {
+          await client.subscribe(remoteUser, mediaType);
+          if (mediaType === "audio") {
+            const { speakerId: speaker } = devicesRef.current;
+            if (speaker) {
+              await remoteUser.audioTrack
+                ?.setPlaybackDevice(speaker)
+                .catch((err) => console.warn("Failed to set playback device:", err));
+            }
+            remoteUser.audioTrack?.setVolume(remoteVolumeRef.current);
+            remoteUser.audioTrack?.play();
+          }
+          upsertRemoteUser(remoteUser);
+        } catch (err) {
+          console.warn("Failed to subscribe to remote user:", err);
+        }
+      });
+
+      client.on("user-unpublished", (remoteUser) => {
+        upsertRemoteUser(remoteUser);
+      });
+
+      client.enableAudioVolumeIndicator();
+      client.on("volume-indicator", (report) => {
+        setSpeakers((prev) => nextSpeakerLevels(prev, report));
+      });
+
+      client.on("user-left", (remoteUser) => {
+        console.log("[Room] Remote user left:", { uid: remoteUser.uid });
+        setRemoteUsers((prev) => prev.filter((u) => u.uid !== remoteUser.uid));
+      });
+
+      let publishedTrack: IMicrophoneAudioTrack | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | null = null;
+      const cancelRetry = () => {
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+      };
+      scope.add(cancelRetry);
+
+      const renew = async () => {
+        cancelRetry();
+        setVoiceStatus("renewing");
+        try {
+          const next = await fetchToken();
+          signal.throwIfAborted();
+          await client.renewToken(next.token);
+          setTokenData(next);
+          setVoiceStatus("ok");
+        } catch (err) {
+          if (signal.aborted) return;
+          console.warn("[Room] Agora token renewal failed:", err);
+          setVoiceStatus("renew-failed");
+          retryTimer = setTimeout(() => void renew(), RECOVERY_RETRY_MS);
+        }
+      };
+
+      const rejoin = async (attempt = 1) => {
+        cancelRetry();
+        setVoiceStatus("rejoining");
+        try {
+          const next = await fetchToken();
+          signal.throwIfAborted();
+          await client.leave().catch(() => {});
+          setRemoteUsers([]);
+          await client.join(next.app_id, next.channel, next.token, next.uid);
+          signal.throwIfAborted();
+          if (publishedTrack) await client.publish(publishedTrack);
+          setTokenData(next);
+          setVoiceStatus("ok");
+        } catch (err) {
+          if (signal.aborted) return;
+          console.error(`[Room] Failed to rejoin channel (attempt ${attempt}):`, err);
+          if (attempt < REJOIN_ATTEMPTS) {
+            retryTimer = setTimeout(() => void rejoin(attempt + 1), RECOVERY_RETRY_MS);
+          } else {
+            setVoiceStatus("disconnected");
+          }
+        }
+      };
+      rejoinRef.current = () => rejoin();
+      scope.add(() => {
+        rejoinRef.current = null;
+      });
+
+      // Agora's reconnect restores the session but not always our stream
+      const republish = async () => {
+        if (!publishedTrack || client.localTracks.includes(publishedTrack)) return;
+        try {
+          await client.publish(publishedTrack);
+        } catch (err) {
+          console.warn("[Room] Failed to republish microphone:", err);
+        }
+      };
+
+      client.on("token-privilege-will-expire", () => void renew());
+      client.on("token-privilege-did-expire", () => void rejoin());
+
+      client.on("connection-state-change", (cur, prev, reason) => {
+        setConnectionState(cur);
+        if (cur === "CONNECTED" && prev === "RECONNECTING") void republish();
+        if (cur === "DISCONNECTED" && reason && REJOINABLE_REASONS.has(reason)) void rejoin();
+      });
+
+      client.on("network-quality", (local) => {
+        setNetworkQuality(nextNetworkQuality(token.uid, local, client.getRemoteNetworkQuality()));
+      });
+
+      try {
+        console.log("[Room] Joining Agora:", {
+          appId: token.app_id,
+          channel: token.channel,
+          uid: token.uid,
+          isHost: session.isHost,
+        });
+        await client.join(token.app_id, token.channel, token.token, token.uid);
+        signal.throwIfAborted();
+        console.log("[Room] Successfully joined channel:", token.channel);
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.error("Failed to join channel:", e);
+        setError("Failed to join meeting. Please try again.");
+        return;
+      }
+
+      // Audio-only meeting: publish the mic but don't play it locally (echo)
+      try {
+        const track = await Agora.createMicrophoneAudioTrack({
+          microphoneId: devicesRef.current.micId ?? undefined,
+          AEC: true, // Acoustic Echo Cancellation
+          AGC: true, // Automatic Gain Control
+          ANS: true, // Automatic Noise Suppression
+        });
+        scope.add(() => {
+          setLocalTrack(null);
+          track.stop();
+          track.close();
+        });
+        signal.throwIfAborted();
+
+        // Muted before it is published, so nothing goes out in between
+        const muted = startMutedRef.current;
+        if (muted) await track.setMuted(true);
+        await client.publish(track);
+        publishedTrack = track;
+        setActiveMicId(track.getMediaStreamTrack().getSettings().deviceId ?? devicesRef.current.micId);
+        setIsMuted(muted);
+        setLocalTrack(track);
+        setMediaPermission("granted");
+      } catch (mediaErr) {
+        if (isAbortError(mediaErr)) throw mediaErr;
+        console.error("Failed to get microphone:", mediaErr);
+        // Continue without media - user can still hear others
+        setMicFailure(classifyMicError(mediaErr));
+        setMediaPermission("denied");
+      }
+    };
+
+    start().catch((err) => {
+      if (isAbortError(err)) return;
+      setError(getErrorMessage(err, "Failed to join meeting"));
+    });
+
+    return () => {
+      scope.run();
+    };
+  }, [session]);
+
+  // Hot-switch the published mic, e.g. after a headset was unplugged
+  useEffect(() => {
+    if (!localTrack || !micId || micId === activeMicId) return;
+    let cancelled = false;
+    localTrack
+      .setDevice(micId)
+      .then(() => {
+        if (!cancelled) setActiveMicId(micId);
+      })
+      .catch((err) => console.warn("Failed to switch microphone:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [localTrack, micId, activeMicId]);
+
+  useEffect(() => {
+    if (!speakerId) return;
+    for (const user of clientRef.current?.remoteUsers ?? []) {
+      user.audioTrack
+        ?.setPlaybackDevice(speakerId)
+        .catch((err) => console.warn("Failed to set playback device:", err));
+    }
+  }, [speakerId]);
+
+  const rejoin = useCallback(() => {
+    void rejoinRef.current?.();
+  }, []);
+
+  // setMuted rather than setEnabled keeps the device open, so unmuting is
+  // instant (push-to-talk) and STT capture keeps the same MediaStreamTrack
+  const setMuted = useCallback(
+    async (muted: boolean) => {
+      if (!localTrack) return;
+      await localTrack.setMuted(muted);
+      setIsMuted(muted);
+    },
+    [localTrack]
+  );
+
+  const setRemoteVolume = useCallback((volume: number) => {
+    remoteVolumeRef.current = volume;
+    for (const user of clientRef.current?.remoteUsers ?? []) user.audioTrack?.setVolume(volume);
+  }, []);
+
+  return {
+    localTrack,
+    micId: activeMicId,
+    remoteUsers,
+    tokenData,
+    connectionState,
+    voiceStatus,
+    rejoin,
+    networkQuality,
+    mediaPermission,
+    micFailure,
+    speakers,
+    isMuted,
+    setMuted,
+    setRemoteVolume,
+    error,
+  };
+}
@@ -0,0 +1,105 @@
+"use client";
+
+/**
+ * Microphones and speakers, and which of each is in use.
+ *
+ * The list follows the mediaDevices "devicechange" event. The selected id is
+ * derived from the saved preference and what is plugged in right now, so
+ * unplugging the selected headset moves straight to the default device;
+ * onDeviceLost tells the page which device went away.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  canSelectSpeaker,
+  listDevices,
+  loadDevicePreferences,
+  pickDevice,
+  saveDevicePreferences,
+} from "@/lib/audio/devices";
+import type { AudioDevice, AudioDeviceKind, AudioDevicePreferences } from "@/lib/audio/devices";
+
+export interface AudioDeviceEvents {
+  onDeviceLost?: (kind: AudioDeviceKind, device: AudioDevice) => void;
+}
+
+export interface AudioDevicesResult {
+  microphones: AudioDevice[];
+  speakers: AudioDevice[];
+  micId: string | null; // null until devices are listed (needs mic permission)
+  speakerId: string | null;
+  canSelectSpeaker: boolean;
+  setMicId: (id: string) => void;
+  setSpeakerId: (id: string) => void;
+  /** List again, e.g. once permission has been granted and labels are known. */
+  refresh: () => Promise<void>;
+}
+
+export function useAudioDevices(events: AudioDeviceEvents = {}): AudioDevicesResult {
+  const [all, setAll] = useState<MediaDeviceInfo[]>([]);
+  // Read from storage with the first listing, which only happens client-side
+  const [prefs, setPrefs] = useState<AudioDevicePreferences | null>(null);
+
+  const microphones = useMemo(() => listDevices(all, "audioinput"), [all]);
+  const speakers = useMemo(() => listDevices(all, "audiooutput"), [all]);
+  const micId = pickDevice(microphones, prefs?.micId ?? null);
+  const speakerId = pickDevice(speakers, prefs?.speakerId ?? null);
+
+  // Latest callbacks and selection for the devicechange handler
+  const eventsRef = useRef(events);
+  const selectedRef = useRef({ microphones, speakers, micId, speakerId });
+  useEffect(() => {
+    eventsRef.current = events;
+    selectedRef.current = { microphones, speakers, micId, speakerId };
+  });
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const next = await navigator.mediaDevices.enumerateDevices();
+    setAll(next);
+    setPrefs((prev) => prev ?? loadDevicePreferences());
+
+    const before = selectedRef.current;
+    const lost = (kind: AudioDeviceKind, listed: AudioDevice[], id: string | null) => {
+      const device = listed.find((d) => d.id === id);
+      if (device && !listDevices(next, kind).some((d) => d.id === id)) {
+        eventsRef.current.onDeviceLost?.(kind, device);
+      }
+    };
+    lost("audioinput", before.microphones, before.micId);
+    lost("audiooutput", before.speakers, before.speakerId);
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    const onChange = () => {
+      refresh().catch((err) => console.warn("Failed to list audio devices:", err));
+    };
+    onChange();
+    mediaDevices.addEventListener("devicechange", onChange);
+    return () => mediaDevices.removeEventListener("devicechange", onChange);
+  }, [refresh]);
+
+  const choose = useCallback((patch: Partial<AudioDevicePreferences>) => {
+    setPrefs((prev) => {
+      const next = { ...(prev ?? loadDevicePreferences()), ...patch };
+      saveDevicePreferences(next);
+      return next;
+    });
+  }, []);
+
+  const setMicId = useCallback((id: string) => choose({ micId: id }), [choose]);
+  const setSpeakerId = useCallback((id: string) => choose({ speakerId: id }), [choose]);
+
+  return {
+    microphones,
+    speakers,
+    micId,
+    speakerId,
+    canSelectSpeaker: speakers.length > 0 && canSelectSpeaker(),
+    setMicId,
+    setSpeakerId,
+    refresh,
+  };
+}
@@ -0,0 +1,83 @@
+"use client";
+
+/**
+ * Live 0–100 input level for a local microphone track, sampled every 100 ms
+ * for the meter. Prefers Agora's own volume reading and falls back to a Web
+ * Audio analyser on the same MediaStreamTrack (re-tapped when `deviceId`
+ * changes, since switching devices replaces it).
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { ILocalAudioTrack } from "agora-rtc-sdk-ng";
+
+const SAMPLE_INTERVAL_MS = 100;
+
+export function useAudioLevel(
+  track: ILocalAudioTrack | null,
+  muted: boolean,
+  deviceId: string | null = null
+): number {
+  const [level, setLevel] = useState(0);
+  const mutedRef = useRef(muted);
+
+  useEffect(() => {
+    mutedRef.current = muted;
+  }, [muted]);
+
+  useEffect(() => {
+    if (!track) return;
+
+    let audioContext: AudioContext | null = null;
+    let analyser: AnalyserNode | null = null;
+    try {
+      const AudioCtx =
+        window.AudioContext ||
+        (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext!;
+      audioContext = new AudioCtx();
+      if (audioContext.state === "suspended") {
+        audioContext.resume().catch(() => {});
+      }
+      const source = audioContext.createMediaStreamSource(new MediaStream([track.getMediaStreamTrack()]));
+      analyser = audioContext.createAnalyser();
+      analyser.fftSize = 256;
+      source.connect(analyser);
+    } catch (vizErr) {
+      console.error("Failed to set up audio visualization:", vizErr);
+    }
+
+    const sample = (): number => {
+      if (mutedRef.current) return 0;
+      // Try to get volume directly from Agora track
+      try {
+        const volume = track.getVolumeLevel();
+        if (typeof volume === "number" && volume > 0) {
+          return Math.min(100, Math.round(volume * 100 * 3));
+        }
+      } catch {
+        // getVolumeLevel not available, try analyser
+      }
+      if (!analyser) return 0;
+      const data = new Uint8Array(analyser.frequencyBinCount);
+      analyser.getByteFrequencyData(data);
+      const average = data.reduce((a, b) => a + b, 0) / data.length;
+      return Math.min(100, Math.round((average / 255) * 100 * 2));
+    };
+
+    const timer = setInterval(() => {
+      try {
+        setLevel(sample());
+      } catch (e) {
+        console.error("Audio level error:", e);
+        setLevel(0);
+      }
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      audioContext?.close().catch(() => {});
+      setLevel(0);
+    };
+  }, [track, deviceId]);
+
+  return level;
+}
@@ -0,0 +1,172 @@
+"use client";
+
+/**
+ * Resolves who we are in a meeting: loads the meeting by code, then either
+ * adopts the participantId from the join link or, for the signed-in host,
+ * registers a participant for them. The returned session owns the root
+ * Teardown the other room hooks attach to.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getMeetingByCode, getMyCompany, joinMeeting, leaveMeeting, listParticipants } from "@/lib/api";
+import { getErrorMessage, isAbortError } from "@/lib/errors";
+import { queryCache, queryKeys } from "@/lib/query";
+import { Teardown } from "@/lib/room/teardown";
+import type { AuthUser, Company, Meeting, Participant } from "@/types";
+
+export interface MeetingSession {
+  meeting: Meeting;
+  participantId: string;
+  isHost: boolean;
+  displayName: string;
+  preferredLanguage: string | null; // as chosen on the join page, if known
+  company: Company | null;
+  teardown: Teardown;
+}
+
+export interface MeetingSessionOptions {
+  participantId: string | null; // from the join link
+  user: AuthUser | null;
+  enabled: boolean; // false until the stored auth session has loaded
+}
+
+export interface MeetingSessionResult {
+  session: MeetingSession | null;
+  error: string | null;
+  /** The join link's participant is unknown or has left; send them to /join. */
+  needsRejoin: boolean;
+  /** The meeting had already ended when the room loaded; nothing was joined. */
+  endedMeeting: Meeting | null;
+  /** Release every room resource and mark the participant as left. */
+  leave: () => Promise<void>;
+}
+
+export function useMeetingSession(
+  code: string,
+  { participantId, user, enabled }: MeetingSessionOptions
+): MeetingSessionResult {
+  const [session, setSession] = useState<MeetingSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsRejoin, setNeedsRejoin] = useState(false);
+  const [endedMeeting, setEndedMeeting] = useState<Meeting | null>(null);
+  const teardownRef = useRef<Teardown | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Aborted by the teardown: cancels in-flight API calls and stops setup
+    // before it creates anything the teardown would miss
+    const controller = new AbortController();
+    const { signal } = controller;
+    const teardown = new Teardown();
+    teardown.add(() => controller.abort());
+    teardownRef.current = teardown;
+
+    const fail = (err: unknown) => {
+      if (isAbortError(err)) return;
+      setError(getErrorMessage(err, "Failed to join meeting"));
+    };
+
+    const start = async () => {
+      const meeting = await getMeetingByCode(code, { signal });
+      console.log("[Room] Meeting fetched:", { code, id: meeting.id, title: meeting.title, hostName: meeting.host_name });
+      queryCache.setData(queryKeys.meetingByCode(meeting.code), meeting);
+
+      // e.g. a reload after the host ended it: show the summary, don't join
+      if (meeting.status === "ended") {
+        setEndedMeeting(meeting);
+        return;
+      }
+
+      if (participantId) {
+        // Participant joining via link - use the provided participant ID
+        console.log("[Room] Participant joined with participantId:", participantId);
+
+        // Reject stale links (wrong meeting, or already left) up front
+        let participant: Participant | undefined;
+        try {
+          const participants = await queryCache.fetch(queryKeys.participants(meeting.id), (opts) =>
+            listParticipants(meeting.id, opts)
+          );
+          signal.throwIfAborted();
+          participant = participants.find((p) => p.id === participantId);
+          if (!participant || participant.left_at) {
+            setNeedsRejoin(true);
+            setError("This link to the session is no longer valid. Please join again.");
+            return;
+          }
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          // Can't verify right now - let them in with what the join page stored
+          console.warn("[Room] Could not verify participant:", err);
+        }
+
+        teardown.add(() => leaveMeeting(participantId).then(() => undefined));
+        setSession({
+          meeting,
+          participantId,
+          isHost: false,
+          // Stored by the join page
+          displayName: participant?.name || localStorage.getItem("relay_participant_name") || "Participant",
+          preferredLanguage: participant?.preferred_language ?? localStorage.getItem("relay_participant_language"),
+          company: null,
+          teardown,
+        });
+        return;
+      }
+
+      if (!user) {
+        setError("Please log in to start a meeting");
+        return;
+      }
+
+      // Host joining from dashboard - create participant automatically
+      console.log("[Room] Host joined (user detected)");
+      let company: Company;
+      try {
+        // Cancelled by the cache (a newer write) or by leaving the room
+        company = await queryCache.ensure(queryKeys.company, (fetch) =>
+          getMyCompany({ signal: AbortSignal.any([fetch.signal, signal]) })
+        );
+        signal.throwIfAborted();
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        // If we can't get company, use email
+        company = { id: "", name: user.email, email: user.email, is_active: true } as Company;
+      }
+
+      const participant = await joinMeeting(
+        {
+          meeting_id: meeting.id,
+          name: company.name,
+          preferred_language: "en",
+          is_registered: true,
+        },
+        { signal }
+      );
+      teardown.add(() => leaveMeeting(participant.id).then(() => undefined));
+      queryCache.invalidate(queryKeys.participants(meeting.id));
+      signal.throwIfAborted();
+
+      setSession({
+        meeting,
+        participantId: participant.id,
+        isHost: true,
+        displayName: company.name,
+        preferredLanguage: participant.preferred_language,
+        company,
+        teardown,
+      });
+    };
+
+    start().catch(fail);
+
+    return () => {
+      teardown.run();
+    };
+  }, [code, participantId, user, enabled]);
+
+  const leave = useCallback(() => teardownRef.current?.run() ?? Promise.resolve(), []);
+
+  return { session, error, needsRejoin, endedMeeting, leave };
+}
@@ -0,0 +1,167 @@
+"use client";
+
+/**
+ * Microphone preview for the pre-join check: opens the selected mic with
+ * getUserMedia, reports a live 0–100 level, and runs an echo test (record a
+ * few seconds, play them back on the selected speaker). The stream is
+ * released when the check unmounts, before the room opens its own track.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { classifyMicError } from "@/lib/audio/devices";
+import type { MicFailure } from "@/lib/audio/devices";
+
+const SAMPLE_INTERVAL_MS = 100;
+export const ECHO_TEST_MS = 3000;
+
+export type EchoTestPhase = "idle" | "recording" | "playing";
+
+export interface MicCheckResult {
+  ready: boolean; // the mic is open
+  failure: MicFailure | null;
+  level: number;
+  echo: EchoTestPhase;
+  startEchoTest: (speakerId: string | null) => void;
+  retry: () => void;
+}
+
+export function useMicCheck(micId: string | null, { onGranted }: { onGranted?: () => void } = {}): MicCheckResult {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [failure, setFailure] = useState<MicFailure | null>(null);
+  const [level, setLevel] = useState(0);
+  const [echo, setEcho] = useState<EchoTestPhase>("idle");
+  const [attempt, setAttempt] = useState(0);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  // The echo test in progress, so closing the check can cut it short
+  const echoRef = useRef<{
+    timer: ReturnType<typeof setTimeout> | null;
+    recorder: MediaRecorder;
+    audio: HTMLAudioElement | null;
+  } | null>(null);
+  const onGrantedRef = useRef(onGranted);
+  useEffect(() => {
+    onGrantedRef.current = onGranted;
+  });
+
+  useEffect(() => {
+    // Already capturing from this device (e.g. the id only became known once listed)
+    const current = streamRef.current?.getAudioTracks()[0]?.getSettings().deviceId;
+    if (streamRef.current && (!micId || current === micId)) return;
+
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ audio: micId ? { deviceId: { exact: micId } } : true })
+      .then((next) => {
+        if (cancelled) {
+          next.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        streamRef.current?.getTracks().forEach((t) => t.stop());
+        streamRef.current = next;
+        setStream(next);
+        setFailure(null);
+        onGrantedRef.current?.();
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.warn("[DeviceCheck] Microphone unavailable:", err);
+        setFailure(classifyMicError(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [micId, attempt]);
+
+  useEffect(() => {
+    return () => {
+      const test = echoRef.current;
+      echoRef.current = null;
+      if (test) {
+        if (test.timer) clearTimeout(test.timer);
+        test.recorder.onstop = null;
+        if (test.recorder.state !== "inactive") test.recorder.stop();
+        test.audio?.pause();
+      }
+      streamRef.current?.getTracks().forEach((t) => t.stop());
+      streamRef.current = null;
+    };
+  }, []);
+
+  // Level meter
+  useEffect(() => {
+    if (!stream) return;
+    const AudioCtx =
+      window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioCtx) return;
+    const audioContext = new AudioCtx();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 256;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const data = new Uint8Array(analyser.frequencyBinCount);
+
+    const timer = setInterval(() => {
+      analyser.getByteFrequencyData(data);
+      const average = data.reduce((a, b) => a + b, 0) / data.length;
+      setLevel(Math.min(100, Math.round((average / 255) * 100 * 2)));
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      audioContext.close().catch(() => {});
+      setLevel(0);
+    };
+  }, [stream]);
+
+  const startEchoTest = useCallback(
+    (speakerId: string | null) => {
+      if (!stream || echo !== "idle") return;
+      const chunks: Blob[] = [];
+      const recorder = new MediaRecorder(stream);
+      const test: NonNullable<typeof echoRef.current> = { timer: null, recorder, audio: null };
+      echoRef.current = test;
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = async () => {
+        test.timer = null;
+        const url = URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType }));
+        const audio = new Audio(url);
+        test.audio = audio;
+        const done = () => {
+          URL.revokeObjectURL(url);
+          if (echoRef.current === test) echoRef.current = null;
+          setEcho("idle");
+        };
+        audio.onended = done;
+        try {
+          if (speakerId && "setSinkId" in audio) await audio.setSinkId(speakerId);
+          // Closed while the output was being switched
+          if (echoRef.current !== test) {
+            URL.revokeObjectURL(url);
+            return;
+          }
+          setEcho("playing");
+          await audio.play();
+        } catch (err) {
+          console.warn("[DeviceCheck] Echo playback failed:", err);
+          done();
+        }
+      };
+      setEcho("recording");
+      recorder.start();
+      test.timer = setTimeout(() => {
+        if (recorder.state !== "inactive") recorder.stop();
+      }, ECHO_TEST_MS);
+    },
+    [stream, echo]
+  );
+
+  const retry = useCallback(() => {
+    setFailure(null);
+    setAttempt((n) => n + 1);
+  }, []);
+
+  return { ready: !!stream && !failure, failure, level, echo, startEchoTest, retry };
+}
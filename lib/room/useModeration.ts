@@ -0,0 +1,237 @@
+"use client";
+
+/**
+ * Host moderation in the room.
+ *
+ * Everyone listens for the host's actions on the socket: force_mute mutes
+ * the local mic, participant_removed (for us) and meeting_ended close the
+ * room with a reason the page can show instead of a silent disconnect, and
+ * room_locked keeps the lock badge in sync. The meeting itself is also
+ * polled (and refetched after a reconnect) so an end we missed while the
+ * socket was down still closes the room. The host also gets the actions
+ * themselves; they go through the REST API so the server can check the
+ * caller really is the host before broadcasting the event. Mute, remove
+ * and lock are only offered with `hostActions` (see resolveHostModeration).
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  endMeeting,
+  getMeetingByCode,
+  muteAllParticipants,
+  muteParticipant,
+  removeParticipant,
+  setMeetingLocked,
+} from "@/lib/api";
+import { getErrorMessage } from "@/lib/errors";
+import { mutateOptimistic, queryCache, queryKeys, useQuery } from "@/lib/query";
+import type { MeetingSession } from "@/lib/room/useMeetingSession";
+import type { RelayWebSocket } from "@/lib/websocket";
+import type { Participant } from "@/types";
+
+export const MEETING_STATUS_POLL_MS = 30_000;
+
+export type RoomExitReason = "ended" | "removed";
+
+export interface RoomExit {
+  reason: RoomExitReason;
+  at: string | null;
+}
+
+export interface ModerationEvents {
+  onForceMuted?: () => void;
+  onRemoved?: (participant: Participant) => void; // someone else was removed
+  onLockChanged?: (locked: boolean) => void;
+}
+
+export interface ModerationOptions extends ModerationEvents {
+  hostActions?: boolean; // offer HostActions to the host
+}
+
+export interface HostActions {
+  mute: (participantId: string) => Promise<void>;
+  muteAll: () => Promise<void>;
+  remove: (participantId: string) => Promise<void>;
+  setLocked: (locked: boolean) => Promise<void>;
+}
+
+export interface HostControls {
+  endForEveryone: () => Promise<void>;
+  actions: HostActions | null; // null unless enabled
+  pending: string | null; // action in flight: "end", "lock", "mute-all", "mute:<id>", "remove:<id>"
+  error: string | null;
+}
+
+export interface ModerationResult {
+  /** Set once the room has been closed on us; everything is already torn down. */
+  exit: RoomExit | null;
+  locked: boolean;
+  host: HostControls | null; // null unless we are the host
+}
+
+export function useModeration(
+  session: MeetingSession | null,
+  socket: RelayWebSocket | null,
+  { hostActions = false, ...events }: ModerationOptions = {}
+): ModerationResult {
+  const [exit, setExit] = useState<RoomExit | null>(null);
+  const [lockOverride, setLockOverride] = useState<boolean | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const code = session?.meeting.code ?? "";
+  const { data: latest } = useQuery(queryKeys.meetingByCode(code), (opts) => getMeetingByCode(code, opts), {
+    enabled: !!session && !exit,
+    refetchInterval: MEETING_STATUS_POLL_MS,
+  });
+  const current = latest && latest.id === session?.meeting.id ? latest : session?.meeting;
+  const endedByPoll = !exit && current?.status === "ended";
+
+  const locked = lockOverride ?? current?.is_locked ?? false;
+
+  // Latest callbacks without resubscribing
+  const eventsRef = useRef(events);
+  useEffect(() => {
+    eventsRef.current = events;
+  });
+
+  // Release the mic, voice channel and socket, then show why
+  const close = useCallback(
+    (reason: RoomExitReason, at?: string | null) => {
+      if (!session) return;
+      setExit((prev) => prev ?? { reason, at: at ?? new Date().toISOString() });
+      void session.teardown.run();
+    },
+    [session]
+  );
+
+  useEffect(() => {
+    if (endedByPoll) void session?.teardown.run();
+  }, [endedByPoll, session]);
+
+  useEffect(() => {
+    if (!session || !socket) return;
+    const { meeting, participantId, isHost } = session;
+    const participantsKey = queryKeys.participants(meeting.id);
+
+    const offMute = socket.on("force_mute", ({ participant_id }) => {
+      // "Mute all" never applies to the host who sent it
+      const forUs = participant_id ? participant_id === participantId : !isHost;
+      if (forUs) eventsRef.current.onForceMuted?.();
+    });
+
+    const offRemoved = socket.on("participant_removed", ({ participant_id }) => {
+      if (participant_id === participantId) {
+        close("removed");
+        return;
+      }
+      const previous = queryCache.getData<Participant[]>(participantsKey)?.find((p) => p.id === participant_id);
+      if (!previous || previous.left_at) return;
+      // Marked as left here so the participant_left that follows isn't announced twice
+      const leftAt = new Date().toISOString();
+      queryCache.setData<Participant[]>(participantsKey, (prev = []) =>
+        prev.map((p) => (p.id === participant_id ? { ...p, left_at: leftAt } : p))
+      );
+      eventsRef.current.onRemoved?.(previous);
+    });
+
+    const offLocked = socket.on("room_locked", ({ locked: next }) => {
+      setLockOverride(next);
+      eventsRef.current.onLockChanged?.(next);
+    });
+
+    const offEnded = socket.on("meeting_ended", ({ meeting_id, ended_at }) => {
+      if (meeting_id === meeting.id) close("ended", ended_at);
+    });
+
+    // The meeting may have ended while we were disconnected
+    let wasOpen = false;
+    const offState = socket.onStateChange((state) => {
+      if (state.phase === "open" && wasOpen) queryCache.invalidate(queryKeys.meetingByCode(meeting.code));
+      if (state.phase === "open") wasOpen = true;
+    });
+
+    return () => {
+      offMute();
+      offRemoved();
+      offLocked();
+      offEnded();
+      offState();
+    };
+  }, [session, socket, close]);
+
+  const perform = useCallback(async (key: string, action: () => Promise<unknown>, fallback: string) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`[Room] ${fallback}:`, err);
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setPending(null);
+    }
+  }, []);
+
+  const host = useMemo<HostControls | null>(() => {
+    if (!session?.isHost) return null;
+    const meetingId = session.meeting.id;
+    const participantsKey = queryKeys.participants(meetingId);
+
+    return {
+      endForEveryone: () =>
+        perform(
+          "end",
+          async () => {
+            await endMeeting(meetingId);
+            queryCache.invalidate(queryKeys.meetings);
+            close("ended");
+          },
+          "Failed to end session"
+        ),
+      actions: hostActions
+        ? {
+            mute: (participantId) =>
+              perform(`mute:${participantId}`, () => muteParticipant(participantId), "Failed to mute participant"),
+            muteAll: () => perform("mute-all", () => muteAllParticipants(meetingId), "Failed to mute everyone"),
+            remove: (participantId) =>
+              perform(
+                `remove:${participantId}`,
+                () =>
+                  mutateOptimistic<Participant[], Participant>(
+                    participantsKey,
+                    (prev = []) =>
+                      prev.map((p) => (p.id === participantId ? { ...p, left_at: new Date().toISOString() } : p)),
+                    () => removeParticipant(participantId),
+                    (current = [], updated) => current.map((p) => (p.id === participantId ? updated : p))
+                  ),
+                "Failed to remove participant"
+              ),
+            setLocked: (next) =>
+              perform(
+                "lock",
+                async () => {
+                  setLockOverride(next);
+                  try {
+                    const meeting = await setMeetingLocked(meetingId, next);
+                    setLockOverride(meeting.is_locked ?? next);
+                  } catch (err) {
+                    setLockOverride(!next);
+                    throw err;
+                  }
+                },
+                next ? "Failed to lock the room" : "Failed to unlock the room"
+              ),
+          }
+        : null,
+      pending,
+      error,
+    };
+  }, [session, hostActions, perform, close, pending, error]);
+
+  return {
+    exit: exit ?? (endedByPoll ? { reason: "ended", at: current?.ended_at ?? null } : null),
+    locked,
+    host,
+  };
+}
@@ -0,0 +1,91 @@
+"use client";
+
+/**
+ * Live meeting participant list.
+ *
+ * Socket participant_joined / participant_left events update the shared
+ * query cache entry (queryKeys.participants(meetingId)) as they happen; a
+ * slower poll and a refetch after every socket reconnect reconcile it with
+ * listParticipants in case an event was missed. Participants whose left_at
+ * is set are filtered out.
+ */
+
+import { useEffect, useMemo, useRef } from "react";
+import { listParticipants } from "@/lib/api";
+import { queryCache, queryKeys, useQuery } from "@/lib/query";
+import type { RelayWebSocket } from "@/lib/websocket";
+import type { Participant } from "@/types";
+
+export const PARTICIPANTS_RECONCILE_MS = 30_000;
+
+export interface ParticipantEvents {
+  onJoined?: (participant: Participant) => void;
+  onLeft?: (participant: Participant) => void;
+}
+
+export interface ParticipantsResult {
+  participants: Participant[]; // currently in the meeting
+  isLoading: boolean;
+  refetch: () => Promise<Participant[]>;
+}
+
+export function useParticipants(
+  meetingId: string | null,
+  socket: RelayWebSocket | null = null,
+  events: ParticipantEvents = {}
+): ParticipantsResult {
+  const id = meetingId ?? "";
+  const { data, isLoading, refetch } = useQuery(
+    queryKeys.participants(id),
+    (opts) => listParticipants(id, opts),
+    { enabled: !!meetingId, refetchInterval: PARTICIPANTS_RECONCILE_MS }
+  );
+
+  // Latest callbacks without resubscribing
+  const eventsRef = useRef(events);
+  useEffect(() => {
+    eventsRef.current = events;
+  });
+
+  useEffect(() => {
+    if (!meetingId || !socket) return;
+    const key = queryKeys.participants(meetingId);
+
+    const offJoined = socket.on("participant_joined", ({ participant }) => {
+      if (participant.meeting_id !== meetingId) return;
+      const known = queryCache.getData<Participant[]>(key)?.some((p) => p.id === participant.id && !p.left_at);
+      queryCache.setData<Participant[]>(key, (prev = []) => [
+        ...prev.filter((p) => p.id !== participant.id),
+        participant,
+      ]);
+      if (!known) eventsRef.current.onJoined?.(participant);
+    });
+
+    const offLeft = socket.on("participant_left", ({ participant_id, left_at }) => {
+      const previous = queryCache.getData<Participant[]>(key)?.find((p) => p.id === participant_id);
+      if (!previous || previous.left_at) return;
+      const leftAt = left_at ?? new Date().toISOString();
+      queryCache.setData<Participant[]>(key, (prev = []) =>
+        prev.map((p) => (p.id === participant_id ? { ...p, left_at: leftAt } : p))
+      );
+      eventsRef.current.onLeft?.(previous);
+    });
+
+    // Events may have been missed while the socket was down
+    let wasOpen = false;
+    const offState = socket.onStateChange((state) => {
+      if (state.phase === "open" && wasOpen) queryCache.invalidate(key);
+      if (state.phase === "open") wasOpen = true;
+    });
+
+    return () => {
+      offJoined();
+      offLeft();
+      offState();
+    };
+  }, [meetingId, socket]);
+
+  const participants = useMemo(() => (data ?? []).filter((p) => !p.left_at), [data]);
+
+  return { participants, isLoading, refetch };
+}
@@ -0,0 +1,71 @@
+"use client";
+
+/**
+ * Push-to-talk: when on, the mic stays muted (and so sends nothing to STT)
+ * except while the talk key or button is held. The setting is remembered
+ * per participant, like the transcript language; pass readPushToTalk() as
+ * useAgoraAudio's startMuted so the mic is never live on join.
+ */
+
+import { useCallback, useState } from "react";
+import type { MeetingSession } from "@/lib/room/useMeetingSession";
+
+const storageKey = (participantId: string) => `relay_push_to_talk:${participantId}`;
+
+/** The remembered setting, for starting the mic muted. */
+export function readPushToTalk(participantId: string): boolean {
+  try {
+    return window.localStorage.getItem(storageKey(participantId)) === "on";
+  } catch {
+    return false;
+  }
+}
+
+export interface PushToTalkResult {
+  enabled: boolean;
+  holding: boolean;
+  setEnabled: (enabled: boolean) => void;
+  /** Key or button down (true) / up (false); ignored unless enabled. */
+  hold: (pressed: boolean) => void;
+}
+
+export function usePushToTalk(
+  session: MeetingSession | null,
+  { setMuted }: { setMuted: (muted: boolean) => Promise<void> }
+): PushToTalkResult {
+  const [chosen, setChosen] = useState<{ participantId: string; enabled: boolean } | null>(null);
+  const [holding, setHolding] = useState(false);
+
+  const participantId = session?.participantId ?? null;
+  let enabled = false;
+  if (participantId) {
+    enabled = chosen?.participantId === participantId ? chosen.enabled : readPushToTalk(participantId);
+  }
+
+  const setEnabled = useCallback(
+    (next: boolean) => {
+      if (!participantId) return;
+      setChosen({ participantId, enabled: next });
+      setHolding(false);
+      // Turning it off leaves the mic muted until the user unmutes
+      if (next) void setMuted(true);
+      try {
+        window.localStorage.setItem(storageKey(participantId), next ? "on" : "off");
+      } catch {
+        // Ignore storage errors
+      }
+    },
+    [participantId, setMuted]
+  );
+
+  const hold = useCallback(
+    (pressed: boolean) => {
+      if (!enabled || pressed === holding) return;
+      setHolding(pressed);
+      void setMuted(!pressed);
+    },
+    [enabled, holding, setMuted]
+  );
+
+  return { enabled, holding, setEnabled, hold };
+}
@@ -0,0 +1,31 @@
+"use client";
+
+/**
+ * The session's RelayWebSocket. Constructing it is side-effect free, so it
+ * is created during render and shared with the hooks that subscribe to its
+ * events (transcripts, presence); the effect connects it and the session
+ * teardown disconnects it.
+ */
+
+import { useEffect, useMemo } from "react";
+import { RelayWebSocket } from "@/lib/websocket";
+import type { MeetingSession } from "@/lib/room/useMeetingSession";
+
+export function useRelaySocket(session: MeetingSession | null): RelayWebSocket | null {
+  const socket = useMemo(
+    () => (session ? new RelayWebSocket(session.meeting.id, session.participantId) : null),
+    [session]
+  );
+
+  useEffect(() => {
+    if (!session || !socket) return;
+    const scope = session.teardown.child();
+    scope.add(() => socket.disconnect());
+    socket.connect();
+    return () => {
+      scope.run();
+    };
+  }, [session, socket]);
+
+  return socket;
+}
@@ -0,0 +1,69 @@
+"use client";
+
+/**
+ * Window-level key handling for the room shortcuts in lib/room/shortcuts.ts.
+ * Actions without a handler are left to the browser. Push-to-talk reports
+ * both press and release, and is released when the window loses focus so a
+ * key-up that never arrives can't leave the mic open.
+ */
+
+import { useEffect, useRef } from "react";
+import { ROOM_SHORTCUTS, isEditableTarget } from "@/lib/room/shortcuts";
+import type { RoomShortcutAction } from "@/lib/room/shortcuts";
+
+export type RoomShortcutHandlers = {
+  [K in Exclude<RoomShortcutAction, "pushToTalk">]?: () => void;
+} & {
+  pushToTalk?: (pressed: boolean) => void;
+};
+
+export function useRoomShortcuts(handlers: RoomShortcutHandlers, enabled = true): void {
+  // Latest handlers without re-binding the listeners
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const find = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return null;
+      return ROOM_SHORTCUTS.find((s) => s.matches(event)) ?? null;
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const shortcut = find(event);
+      if (!shortcut) return;
+      const current = handlersRef.current;
+      if (shortcut.action === "pushToTalk") {
+        if (!current.pushToTalk) return;
+        // Don't scroll the page or click the focused button
+        event.preventDefault();
+        if (!event.repeat) current.pushToTalk(true);
+        return;
+      }
+      const handler = current[shortcut.action];
+      if (!handler) return;
+      event.preventDefault();
+      if (!event.repeat) handler();
+    };
+
+    // Released wherever focus has moved to since the key went down
+    const onKeyUp = (event: KeyboardEvent) => {
+      const released = ROOM_SHORTCUTS.some((s) => s.action === "pushToTalk" && s.matches(event));
+      if (released) handlersRef.current.pushToTalk?.(false);
+    };
+
+    const onBlur = () => handlersRef.current.pushToTalk?.(false);
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", onBlur);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,76 @@
+"use client";
+
+/**
+ * Which language the local participant reads transcripts in.
+ *
+ * Options come from the meeting's allowed_languages. The default is the
+ * last choice this participant made in the room (remembered per
+ * participant), then the preferred_language picked on the join page, then
+ * the meeting's first language.
+ */
+
+import { useCallback, useMemo, useState } from "react";
+import { isLanguageAllowed, meetingLanguages, pickLanguage } from "@/lib/languages";
+import type { LanguageOption } from "@/lib/languages";
+import type { MeetingSession } from "@/lib/room/useMeetingSession";
+import type { Participant } from "@/types";
+
+const storageKey = (participantId: string) => `relay_transcript_language:${participantId}`;
+
+function readStored(participantId: string): string | null {
+  try {
+    return window.localStorage.getItem(storageKey(participantId));
+  } catch {
+    return null;
+  }
+}
+
+export interface TranscriptLanguageResult {
+  language: string | null; // null until the session is known
+  options: LanguageOption[];
+  /** The join-page preference, when this meeting doesn't offer it. */
+  unavailablePreference: string | null;
+  setLanguage: (language: string) => void;
+}
+
+export function useTranscriptLanguage(
+  session: MeetingSession | null,
+  participants: Participant[]
+): TranscriptLanguageResult {
+  const [chosen, setChosen] = useState<{ participantId: string; language: string } | null>(null);
+  const options = useMemo(() => meetingLanguages(session?.meeting ?? null), [session]);
+
+  const participantId = session?.participantId ?? null;
+  const fromParticipant = participants.find((p) => p.id === participantId)?.preferred_language;
+
+  let language: string | null = null;
+  if (session && participantId) {
+    language = pickLanguage(
+      [
+        chosen?.participantId === participantId ? chosen.language : null,
+        readStored(participantId),
+        session.preferredLanguage,
+        fromParticipant,
+      ],
+      options
+    );
+  }
+
+  const setLanguage = useCallback(
+    (next: string) => {
+      if (!participantId) return;
+      setChosen({ participantId, language: next });
+      try {
+        window.localStorage.setItem(storageKey(participantId), next);
+      } catch {
+        // Ignore storage errors
+      }
+    },
+    [participantId]
+  );
+
+  const preferred = session?.preferredLanguage ?? null;
+  const unavailablePreference = preferred && !isLanguageAllowed(preferred, options) ? preferred : null;
+
+  return { language, options, unavailablePreference, setLanguage };
+}
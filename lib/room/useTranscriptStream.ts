@@ -0,0 +1,303 @@
+"use client";
+
+/**
+ * Live transcripts from the session's RelayWebSocket (see useRelaySocket),
+ * plus the optional STT upload from the local microphone track.
+ *
+ * Without a track (e.g. a caption-only viewer) the hook only listens. With
+ * one, audio is captured as AudioWorklet PCM frames or MediaRecorder chunks
+ * (see lib/config.ts) and, when VAD is enabled, only speech is streamed.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ILocalAudioTrack } from "agora-rtc-sdk-ng";
+import type { ConnectionState, RelayWebSocket } from "@/lib/websocket";
+import type { AudioQueueStats } from "@/lib/audioQueue";
+import {
+  PcmCapture,
+  encodePcmPacket,
+  DEFAULT_PCM_SAMPLE_RATE,
+  DEFAULT_PCM_FRAME_MS,
+} from "@/lib/audio/pcmCapture";
+import type { PcmFrame } from "@/lib/audio/pcmCapture";
+import { VadGate } from "@/lib/audio/vad";
+import { splitWebmInitSegment } from "@/lib/audio/webm";
+import type { SttCaptureMode, SttVadConfig } from "@/lib/config";
+import type { MeetingSession } from "@/lib/room/useMeetingSession";
+import { applyFinal, applyPartial, applyTranslation } from "@/lib/room/liveTranscripts";
+import type { LiveTranscript } from "@/lib/room/liveTranscripts";
+import type { ClientMessage } from "@/types";
+
+const RECORDER_TIMESLICE_MS = 2000;
+
+export interface TranscriptCaptureConfig {
+  mode: SttCaptureMode;
+  vad: SttVadConfig;
+}
+
+export interface TranscriptStreamOptions {
+  track: ILocalAudioTrack | null; // omit to receive transcripts only
+  deviceId: string | null; // the track's mic; capture restarts when it is switched
+  muted: boolean;
+  language: string | null; // translation language this participant reads
+  capture: TranscriptCaptureConfig; // keep referentially stable
+}
+
+export interface TranscriptStreamResult {
+  transcripts: LiveTranscript[]; // finals plus in-progress partials
+  connection: ConnectionState | null;
+  droppedAudio: AudioQueueStats | null;
+  /** Whether VAD is deciding `isSpeaking` (otherwise it's always false). */
+  vadActive: boolean;
+  isSpeaking: boolean;
+  retryNow: () => void;
+}
+
+// Fall back to MediaRecorder where AudioWorklet isn't available
+function effectiveMode(capture: TranscriptCaptureConfig): SttCaptureMode {
+  return capture.mode === "worklet" && PcmCapture.isSupported ? "worklet" : "recorder";
+}
+
+export function useTranscriptStream(
+  session: MeetingSession | null,
+  socket: RelayWebSocket | null,
+  { track, deviceId, muted, language, capture }: TranscriptStreamOptions
+): TranscriptStreamResult {
+  const [transcripts, setTranscripts] = useState<LiveTranscript[]>([]);
+  const [connection, setConnection] = useState<ConnectionState | null>(null);
+  const [droppedAudio, setDroppedAudio] = useState<AudioQueueStats | null>(null);
+  const [vadActive, setVadActive] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  const wsRef = useRef<RelayWebSocket | null>(null);
+  const gateRef = useRef<VadGate | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const mutedRef = useRef(muted);
+  const languageRef = useRef(language);
+
+  // Transcript socket
+  useEffect(() => {
+    if (!session || !socket) return;
+
+    const ws = socket;
+    const scope = session.teardown.child();
+    const unsubscribe = [
+      ws.on("transcript", (msg) => {
+        setTranscripts((prev) => applyFinal(prev, msg));
+      }),
+      ws.on("transcript_partial", (msg) => {
+        setTranscripts((prev) => applyPartial(prev, msg));
+      }),
+      ws.on("translation_update", (msg) => {
+        setTranscripts((prev) => applyTranslation(prev, msg));
+      }),
+      ws.on("error", (msg) => {
+        console.warn("[Room] Server error:", msg.code, msg.message);
+      }),
+      // Declared on every (re)connect before any buffered audio goes out
+      ws.setHandshake(() => {
+        const messages: ClientMessage[] = [
+          effectiveMode(capture) === "worklet"
+            ? {
+                type: "audio_format",
+                encoding: "pcm_s16le",
+                sample_rate: DEFAULT_PCM_SAMPLE_RATE,
+                frame_ms: DEFAULT_PCM_FRAME_MS,
+              }
+            : { type: "audio_format", encoding: "webm_opus" },
+          { type: "mute_state", muted: mutedRef.current },
+        ];
+        if (languageRef.current) {
+          messages.push({ type: "set_language", language: languageRef.current });
+        }
+        return messages;
+      }),
+      ws.onStateChange((state) => {
+        setConnection(state);
+        if (state.phase === "open") {
+          const stats = ws.audioBufferStats;
+          if (stats.droppedChunks > 0) {
+            console.warn("[Room] Audio dropped while reconnecting:", stats);
+            setDroppedAudio(stats);
+          }
+        }
+      }),
+    ];
+    scope.add(() => {
+      unsubscribe.forEach((off) => off());
+      if (wsRef.current === ws) wsRef.current = null;
+    });
+    wsRef.current = ws;
+
+    return () => {
+      scope.run();
+    };
+  }, [session, socket, capture]);
+
+  // Mic capture for STT
+  useEffect(() => {
+    if (!session || !track) return;
+
+    const scope = session.teardown.child();
+    const controller = new AbortController();
+    const { signal } = controller;
+    scope.add(() => controller.abort());
+    const mode = effectiveMode(capture);
+
+    // Nothing is transcribed while muted (including push-to-talk released)
+    const sendFrame = (frame: PcmFrame) => {
+      if (mutedRef.current) return;
+      wsRef.current?.sendAudioChunk(encodePcmPacket(frame), frame.durationMs);
+    };
+
+    const start = async () => {
+      let recorder: MediaRecorder | null = null;
+
+      // Only stream speech: VAD needs PCM frames, so it runs wherever
+      // AudioWorklet does. In recorder mode it pauses the MediaRecorder
+      // between utterances instead (no pre-roll there).
+      let gate: VadGate | null = null;
+      if (capture.vad.enabled && PcmCapture.isSupported) {
+        gate = new VadGate(
+          {
+            onFrame: (frame) => {
+              if (mode === "worklet") sendFrame(frame);
+            },
+            onSpeechStart: () => {
+              setIsSpeaking(true);
+              if (recorder?.state === "paused" && !mutedRef.current) recorder.resume();
+            },
+            onSpeechEnd: () => {
+              setIsSpeaking(false);
+              if (recorder?.state === "recording") recorder.pause();
+            },
+          },
+          capture.vad.options
+        );
+      }
+
+      if (mode === "worklet" || gate) {
+        // Stream 16 kHz PCM frames from the Agora track itself
+        const pcm = new PcmCapture(track.getMediaStreamTrack(), {
+          onFrame: (frame) => {
+            if (!gate) sendFrame(frame);
+            // Muted speech mustn't count as speaking or wake the recorder
+            else if (!mutedRef.current) gate.push(frame);
+          },
+        });
+        scope.add(() => pcm.stop());
+        try {
+          await pcm.start();
+        } catch (vadErr) {
+          if (mode === "worklet") throw vadErr;
+          console.warn("VAD unavailable, sending ungated audio:", vadErr);
+          pcm.stop();
+          gate = null;
+        }
+        signal.throwIfAborted();
+      }
+      if (gate) {
+        gateRef.current = gate;
+        setVadActive(true);
+        scope.add(() => {
+          gateRef.current = null;
+          setVadActive(false);
+          setIsSpeaking(false);
+        });
+      }
+
+      if (mode === "recorder") {
+        // Separate browser stream for the upload, with its own processing
+        const mediaStream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            deviceId: deviceId ? { exact: deviceId } : undefined,
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: true,
+          },
+        });
+        scope.add(() => mediaStream.getTracks().forEach((t) => t.stop()));
+        signal.throwIfAborted();
+
+        recorder = new MediaRecorder(mediaStream, {
+          mimeType: "audio/webm;codecs=opus",
+        });
+        // Chunks produced while the socket is reconnecting are buffered
+        // by RelayWebSocket and flushed once it is back. The first chunk
+        // opens with the WebM init segment, which every connection needs:
+        // only those bytes become the stream header, and the audio after
+        // them goes out like any other chunk. Chunks are read one after
+        // another so they can't overtake the header.
+        let headerSent = false;
+        let previous = Promise.resolve();
+        recorder.ondataavailable = (event) => {
+          if (event.data.size === 0 || !wsRef.current) return;
+          const isFirst = !headerSent;
+          headerSent = true;
+          // Decided now: the recorder is paused on mute, but a chunk
+          // flushed after that still holds audio from before it
+          const dropAudio = mutedRef.current;
+          if (!isFirst && dropAudio) return;
+          previous = previous.then(async () => {
+            let audio = await event.data.arrayBuffer();
+            if (isFirst) {
+              const split = splitWebmInitSegment(audio);
+              if (split) {
+                wsRef.current?.setAudioHeader(split.init);
+                audio = split.rest;
+              }
+            }
+            if (audio.byteLength > 0 && !dropAudio) {
+              wsRef.current?.sendAudioChunk(audio, RECORDER_TIMESLICE_MS);
+            }
+          });
+        };
+        const active = recorder;
+        recorderRef.current = active;
+        scope.add(() => {
+          if (recorderRef.current === active) recorderRef.current = null;
+          active.ondataavailable = null;
+          if (active.state !== "inactive") active.stop();
+          wsRef.current?.setAudioHeader(null);
+        });
+        active.start(RECORDER_TIMESLICE_MS);
+        if (mutedRef.current || (gate && !gate.isSpeaking)) active.pause();
+      }
+    };
+
+    start().catch((captureErr) => {
+      if (signal.aborted) return;
+      console.error("Failed to set up audio capture for STT:", captureErr);
+      // Continue anyway - STT won't work but meeting can continue
+    });
+
+    return () => {
+      scope.run();
+    };
+  }, [session, track, deviceId, capture]);
+
+  // Mute state
+  useEffect(() => {
+    mutedRef.current = muted;
+    wsRef.current?.send({ type: "mute_state", muted });
+    // Close the open speech segment now rather than after the post-roll
+    if (muted) gateRef.current?.reset();
+    // The recorder has its own getUserMedia stream, which muting the Agora
+    // track doesn't silence, so stop recording altogether
+    const recorder = recorderRef.current;
+    const gate = gateRef.current;
+    if (muted && recorder?.state === "recording") recorder.pause();
+    else if (!muted && recorder?.state === "paused" && (!gate || gate.isSpeaking)) recorder.resume();
+  }, [muted]);
+
+  // Translation language — the server only translates into languages
+  // someone is reading
+  useEffect(() => {
+    languageRef.current = language;
+    if (language) wsRef.current?.send({ type: "set_language", language });
+  }, [language]);
+
+  const retryNow = useCallback(() => wsRef.current?.retryNow(), []);
+
+  return { transcripts, connection, droppedAudio, vadActive, isSpeaking, retryNow };
+}
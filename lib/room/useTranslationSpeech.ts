@@ -0,0 +1,173 @@
+"use client";
+
+/**
+ * "Listen in my language": reads other speakers' final captions aloud in
+ * the selected transcript language, through the SpeechQueue in
+ * lib/audio/speech.ts. Only translations are spoken — an utterance already
+ * in that language can be heard directly — and nothing said before the mode
+ * was turned on (or the language changed) is read out.
+ *
+ * While speaking, the room's Agora audio is ducked so the translation is
+ * audible over the original. Settings are kept per browser, like the audio
+ * devices, because the available voices depend on the machine.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  SpeechQueue,
+  isSpeechSupported,
+  loadSpeechSettings,
+  saveSpeechSettings,
+  voiceSpeaks,
+} from "@/lib/audio/speech";
+import type { SpeechSettings } from "@/lib/audio/speech";
+import type { LiveTranscript } from "@/lib/room/liveTranscripts";
+import type { MeetingSession } from "@/lib/room/useMeetingSession";
+
+const DUCKED_VOLUME = 25; // of 100
+
+export interface TranslationVoice {
+  uri: string;
+  name: string;
+}
+
+export interface TranslationSpeechResult {
+  supported: boolean;
+  enabled: boolean;
+  speaking: boolean;
+  rate: number;
+  voices: TranslationVoice[]; // for the selected language
+  voiceURI: string | null; // null = the browser's default for the language
+  setEnabled: (enabled: boolean) => void;
+  setRate: (rate: number) => void;
+  setVoiceURI: (uri: string | null) => void;
+}
+
+export function useTranslationSpeech(
+  session: MeetingSession | null,
+  {
+    transcripts,
+    language,
+    setRemoteVolume,
+  }: {
+    transcripts: LiveTranscript[];
+    language: string | null;
+    setRemoteVolume: (volume: number) => void;
+  }
+): TranslationSpeechResult {
+  const [supported] = useState(isSpeechSupported);
+  const [settings, setSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [speaking, setSpeaking] = useState(false);
+  // Chrome loads voices asynchronously and announces them with voiceschanged
+  const [allVoices, setAllVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    isSpeechSupported() ? window.speechSynthesis.getVoices() : []
+  );
+  const queueRef = useRef<SpeechQueue | null>(null);
+  // Utterance keys that have been spoken or deliberately passed over
+  const handledRef = useRef(new Set<string>());
+
+  const latestRef = useRef({ setRemoteVolume });
+  useEffect(() => {
+    latestRef.current = { setRemoteVolume };
+  });
+
+  const participantId = session?.participantId ?? null;
+  const enabled = supported && settings.enabled && !!session && !!language;
+
+  useEffect(() => {
+    if (!supported) return;
+    const synth = window.speechSynthesis;
+    const onVoicesChanged = () => setAllVoices(synth.getVoices());
+    synth.addEventListener("voiceschanged", onVoicesChanged);
+    return () => synth.removeEventListener("voiceschanged", onVoicesChanged);
+  }, [supported]);
+
+  // One queue while the mode is on; ducking follows whether it's speaking
+  useEffect(() => {
+    if (!enabled) return;
+    const queue = new SpeechQueue((isSpeaking) => {
+      setSpeaking(isSpeaking);
+      latestRef.current.setRemoteVolume(isSpeaking ? DUCKED_VOLUME : 100);
+    });
+    queueRef.current = queue;
+    return () => {
+      queueRef.current = null;
+      // Reports speaking=false, which also lifts the ducking
+      queue.clear();
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    queueRef.current?.setOptions({ rate: settings.rate, voices: settings.voices });
+  }, [enabled, settings.rate, settings.voices]);
+
+  // Switching language starts afresh rather than reading the backlog
+  const languageRef = useRef(language);
+  useEffect(() => {
+    if (languageRef.current === language) return;
+    languageRef.current = language;
+    queueRef.current?.clear();
+    handledRef.current = new Set(transcripts.map((t) => t.key));
+  }, [language, transcripts]);
+
+  useEffect(() => {
+    const handled = handledRef.current;
+    const queue = queueRef.current;
+    for (const t of transcripts) {
+      if (handled.has(t.key)) continue;
+      if (!queue || !language) {
+        handled.add(t.key);
+        continue;
+      }
+      // Wait for the final; the translation may follow it separately
+      if (!t.isFinal) continue;
+      if (t.speaker_id === participantId || t.original_language === language) {
+        handled.add(t.key);
+        continue;
+      }
+      const text = t.translations[language];
+      if (!text) continue;
+      handled.add(t.key);
+      queue.enqueue({ id: t.key, text, lang: language, queuedAt: Date.now() });
+    }
+  }, [transcripts, language, participantId, enabled]);
+
+  const update = useCallback((patch: Partial<SpeechSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...patch };
+      saveSpeechSettings(next);
+      return next;
+    });
+  }, []);
+
+  const setEnabled = useCallback((next: boolean) => update({ enabled: next }), [update]);
+  const setRate = useCallback((rate: number) => update({ rate }), [update]);
+  const setVoiceURI = useCallback(
+    (uri: string | null) => {
+      if (!language) return;
+      const voices = { ...settings.voices };
+      if (uri) voices[language] = uri;
+      else delete voices[language];
+      update({ voices });
+    },
+    [language, settings.voices, update]
+  );
+
+  const voices = language
+    ? allVoices.filter((v) => voiceSpeaks(v, language)).map((v) => ({ uri: v.voiceURI, name: v.name }))
+    : [];
+  const stored = language ? settings.voices[language] : undefined;
+  const voiceURI = stored && voices.some((v) => v.uri === stored) ? stored : null;
+
+  return {
+    supported,
+    enabled,
+    speaking,
+    rate: settings.rate,
+    voices,
+    voiceURI,
+    setEnabled,
+    setRate,
+    setVoiceURI,
+  };
+}
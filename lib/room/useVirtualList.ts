@@ -0,0 +1,168 @@
+"use client";
+
+/**
+ * Windowed rendering for a long, growing list in a scroll container, with
+ * chat-style following.
+ *
+ * Only the items in (or near) the viewport are rendered; the rest are
+ * stood in for by padding worked out from each item's measured height, or
+ * estimateHeight until it has been on screen. Items must carry
+ * `data-key={key}` next to `ref={measureRef}`.
+ *
+ * While the view is at the bottom it follows new items. Scrolling up
+ * pauses that and counts what arrives meanwhile (`unseen`) until the user
+ * scrolls back down or calls jumpToLatest.
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+
+const FOLLOW_THRESHOLD_PX = 48;
+
+export interface VirtualListOptions<T> {
+  getKey: (item: T) => string;
+  estimateHeight?: number; // px, including the item's own spacing
+  overscan?: number; // px rendered beyond each edge of the viewport
+}
+
+export interface VirtualItem<T> {
+  item: T;
+  key: string;
+  index: number;
+}
+
+export interface VirtualListResult<T> {
+  containerRef: (el: HTMLElement | null) => void | (() => void);
+  onScroll: () => void;
+  measureRef: (el: HTMLElement | null) => void | (() => void);
+  visible: VirtualItem<T>[];
+  paddingTop: number;
+  paddingBottom: number;
+  following: boolean;
+  unseen: number; // items added since following paused
+  jumpToLatest: () => void;
+}
+
+export function useVirtualList<T>(
+  items: T[],
+  { getKey, estimateHeight = 96, overscan = 600 }: VirtualListOptions<T>
+): VirtualListResult<T> {
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  // Item count when the user scrolled away from the bottom; null = following
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+
+  const containerEl = useRef<HTMLElement | null>(null);
+  const itemObserver = useRef<ResizeObserver | null>(null);
+
+  const countRef = useRef(items.length);
+  useEffect(() => {
+    countRef.current = items.length;
+  });
+
+  const keys = useMemo(() => items.map(getKey), [items, getKey]);
+
+  // offsets[i] = top of item i; offsets[n] = total height
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (const key of keys) result.push(result[result.length - 1] + (heights.get(key) ?? estimateHeight));
+    return result;
+  }, [keys, heights, estimateHeight]);
+  const total = offsets[offsets.length - 1];
+
+  const from = Math.max(0, viewport.top - overscan);
+  const to = viewport.top + viewport.height + overscan;
+  let low = 0;
+  let high = keys.length;
+  // First item whose bottom edge is past `from`
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= from) low = mid + 1;
+    else high = mid;
+  }
+  const start = low;
+  let end = start;
+  while (end < keys.length && offsets[end] < to) end += 1;
+
+  const visible = items.slice(start, end).map((item, i) => ({ item, key: keys[start + i], index: start + i }));
+
+  const following = pausedAt === null;
+  const unseen = pausedAt === null ? 0 : Math.max(0, items.length - pausedAt);
+
+  const readViewport = useCallback(() => {
+    const el = containerEl.current;
+    if (!el) return;
+    setViewport((prev) =>
+      prev.top === el.scrollTop && prev.height === el.clientHeight
+        ? prev
+        : { top: el.scrollTop, height: el.clientHeight }
+    );
+  }, []);
+
+  const containerRef = useCallback(
+    (el: HTMLElement | null) => {
+      containerEl.current = el;
+      if (!el) return;
+      const observer = new ResizeObserver(readViewport);
+      observer.observe(el);
+      return () => observer.disconnect();
+    },
+    [readViewport]
+  );
+
+  const onScroll = useCallback(() => {
+    const el = containerEl.current;
+    if (!el) return;
+    readViewport();
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight <= FOLLOW_THRESHOLD_PX;
+    setPausedAt((prev) => (atBottom ? null : (prev ?? countRef.current)));
+  }, [readViewport]);
+
+  const measureRef = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    if (!itemObserver.current) {
+      itemObserver.current = new ResizeObserver((entries) => {
+        setHeights((prev) => {
+          let next: Map<string, number> | null = null;
+          for (const entry of entries) {
+            const key = (entry.target as HTMLElement).dataset.key;
+            if (!key) continue;
+            const height = Math.round(entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height);
+            if (prev.get(key) === height) continue;
+            next ??= new Map(prev);
+            next.set(key, height);
+          }
+          return next ?? prev;
+        });
+      });
+    }
+    const observer = itemObserver.current;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, []);
+
+  useEffect(() => () => itemObserver.current?.disconnect(), []);
+
+  // Stay pinned to the bottom as items arrive or grow
+  useLayoutEffect(() => {
+    const el = containerEl.current;
+    if (following && el) el.scrollTop = el.scrollHeight;
+  }, [following, total, items.length]);
+
+  const jumpToLatest = useCallback(() => {
+    const el = containerEl.current;
+    if (el) el.scrollTop = el.scrollHeight;
+    setPausedAt(null);
+  }, []);
+
+  return {
+    containerRef,
+    onScroll,
+    measureRef,
+    visible,
+    paddingTop: offsets[start],
+    paddingBottom: total - offsets[end],
+    following,
+    unseen,
+    jumpToLatest,
+  };
+}
@@ -0,0 +1,56 @@
+"use client";
+
+/**
+ * Transient notifications ("Ana joined") for a single page. Each toast
+ * dismisses itself after `durationMs`; only the newest `max` are kept.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type ToastTone = "info" | "success" | "warning";
+
+export interface Toast {
+  id: number;
+  message: string;
+  tone: ToastTone;
+}
+
+export interface ToastOptions {
+  durationMs?: number; // default 4000
+  max?: number; // default 4
+}
+
+export function useToasts({ durationMs = 4000, max = 4 }: ToastOptions = {}) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const push = useCallback(
+    (message: string, tone: ToastTone = "info") => {
+      nextId.current += 1;
+      const id = nextId.current;
+      setToasts((prev) => [...prev, { id, message, tone }].slice(-max));
+      timers.current.set(
+        id,
+        setTimeout(() => dismiss(id), durationMs)
+      );
+    },
+    [dismiss, durationMs, max]
+  );
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach((timer) => clearTimeout(timer));
+      pending.clear();
+    };
+  }, []);
+
+  return { toasts, push, dismiss };
+}
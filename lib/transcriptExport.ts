@@ -0,0 +1,326 @@
+/**
+ * Transcript export: SRT and WebVTT subtitles, plain text, Markdown and a
+ * lossless JSON document, in the original language or any translation.
+ *
+ * Both sources — the stored history (getMeetingTranscripts plus
+ * getMeetingTranslations) and the room's live caption list — are first
+ * normalised to ExportEntry, so every format is produced the same way.
+ *
+ * Transcripts carry only the time an utterance started, so subtitle cues
+ * are timed from the first utterance: each cue lasts roughly as long as it
+ * takes to say its words (MS_PER_WORD, between MIN_CUE_MS and MAX_CUE_MS)
+ * and is cut short when the next one starts.
+ */
+
+import { languageLabel } from "@/lib/languages";
+import type { LiveTranscript } from "@/lib/room/liveTranscripts";
+import type { Meeting, Transcript, Translation } from "@/types";
+
+export type ExportFormat = "srt" | "vtt" | "txt" | "md" | "json";
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: "srt", label: "Subtitles (SRT)", extension: "srt", mimeType: "application/x-subrip" },
+  { format: "vtt", label: "Subtitles (WebVTT)", extension: "vtt", mimeType: "text/vtt" },
+  { format: "txt", label: "Plain text", extension: "txt", mimeType: "text/plain" },
+  { format: "md", label: "Markdown (for Word/Docs)", extension: "md", mimeType: "text/markdown" },
+  { format: "json", label: "JSON (all languages)", extension: "json", mimeType: "application/json" },
+];
+
+export interface ExportEntry {
+  id: string;
+  speakerId: string | null;
+  speakerName: string;
+  originalText: string;
+  originalLanguage: string;
+  translations: Record<string, string>; // language → text
+  timestamp: string | null; // ISO; when the utterance started
+}
+
+export type ExportMeeting = Pick<Meeting, "id" | "code" | "title" | "created_at" | "ended_at">;
+
+export interface ExportOptions {
+  /** null = each utterance in the language it was spoken */
+  language: string | null;
+}
+
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1_500;
+const MAX_CUE_MS = 8_000;
+
+const UNKNOWN_SPEAKER = "Unknown speaker";
+
+// ── Sources ───────────────────────────────────────────────────────────────────
+
+/** Stored transcripts with their translation rows, oldest first. */
+export function entriesFromHistory(
+  transcripts: Transcript[],
+  translations: Translation[],
+  speakerNames: Map<string, string>
+): ExportEntry[] {
+  const byTranscript = new Map<string, Record<string, string>>();
+  for (const tr of translations) {
+    const map = byTranscript.get(tr.transcript_id) ?? {};
+    map[tr.language] = tr.translated_text;
+    byTranscript.set(tr.transcript_id, map);
+  }
+  return [...transcripts]
+    .sort((a, b) => (a.timestamp ?? "").localeCompare(b.timestamp ?? ""))
+    .map((t) => ({
+      id: t.id,
+      speakerId: t.speaker_id ?? null,
+      speakerName: (t.speaker_id && speakerNames.get(t.speaker_id)) || UNKNOWN_SPEAKER,
+      originalText: t.original_text,
+      originalLanguage: t.original_language,
+      translations: byTranscript.get(t.id) ?? {},
+      timestamp: t.timestamp ?? null,
+    }));
+}
+
+/** Final captions from the room; in-progress partials are left out. */
+export function entriesFromLive(transcripts: LiveTranscript[]): ExportEntry[] {
+  return transcripts
+    .filter((t) => t.isFinal)
+    .map((t) => ({
+      id: t.key,
+      speakerId: t.speaker_id,
+      speakerName: t.speaker_name || UNKNOWN_SPEAKER,
+      originalText: t.original_text,
+      originalLanguage: t.original_language,
+      translations: t.translations,
+      timestamp: t.timestamp,
+    }));
+}
+
+/** Languages an export can be made in: those any entry was translated to. */
+export function exportLanguages(entries: ExportEntry[]): string[] {
+  const codes = new Set<string>();
+  for (const e of entries) {
+    codes.add(e.originalLanguage);
+    for (const code of Object.keys(e.translations)) codes.add(code);
+  }
+  return [...codes];
+}
+
+// ── Timing ────────────────────────────────────────────────────────────────────
+
+export interface TimedEntry extends ExportEntry {
+  startMs: number; // from the first utterance
+  endMs: number;
+}
+
+function parseTime(value: string | null): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function spokenDuration(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, words * MS_PER_WORD));
+}
+
+/**
+ * Cue times for each entry. Entries without a usable timestamp (or out of
+ * order) follow straight on from the previous cue.
+ */
+export function computeCueTimings(entries: ExportEntry[], options: ExportOptions): TimedEntry[] {
+  const origin = entries.map((e) => parseTime(e.timestamp)).find((ms) => ms !== null) ?? 0;
+
+  const starts: number[] = [];
+  let previousEnd = 0;
+  const timed = entries.map((entry) => {
+    const at = parseTime(entry.timestamp);
+    const previousStart = starts.length > 0 ? starts[starts.length - 1] : 0;
+    const startMs = at !== null && at - origin >= previousStart ? at - origin : previousEnd;
+    starts.push(startMs);
+    previousEnd = startMs + spokenDuration(entryText(entry, options));
+    return { ...entry, startMs, endMs: previousEnd };
+  });
+
+  // Don't overlap the next cue unless it starts at the same moment
+  for (let i = 0; i < timed.length - 1; i++) {
+    const next = timed[i + 1].startMs;
+    if (next > timed[i].startMs) timed[i].endMs = Math.min(timed[i].endMs, next);
+  }
+  return timed;
+}
+
+// ── Formats ───────────────────────────────────────────────────────────────────
+
+/** The entry's text in the export language, falling back to the original. */
+export function entryText(entry: ExportEntry, { language }: ExportOptions): string {
+  if (!language || language === entry.originalLanguage) return entry.originalText;
+  return entry.translations[language] ?? entry.originalText;
+}
+
+function clock(ms: number, separator: "," | "."): string {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3_600_000);
+  const m = Math.floor((total % 3_600_000) / 60_000);
+  const s = Math.floor((total % 60_000) / 1000);
+  const rest = total % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(rest, 3)}`;
+}
+
+/** hh:mm:ss, for the text formats */
+function offset(ms: number): string {
+  return clock(ms, ".").slice(0, 8);
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ").trim();
+}
+
+function toSrt(entries: TimedEntry[], options: ExportOptions): string {
+  return entries
+    .map((e, i) =>
+      [
+        String(i + 1),
+        `${clock(e.startMs, ",")} --> ${clock(e.endMs, ",")}`,
+        `${e.speakerName}: ${oneLine(entryText(e, options))}`,
+      ].join("\n")
+    )
+    .join("\n\n")
+    .concat("\n");
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function toVtt(entries: TimedEntry[], options: ExportOptions): string {
+  const cues = entries.map((e, i) =>
+    [
+      String(i + 1),
+      `${clock(e.startMs, ".")} --> ${clock(e.endMs, ".")}`,
+      // Voice spans let players show or style the speaker
+      `<v ${escapeVtt(e.speakerName)}>${escapeVtt(oneLine(entryText(e, options)))}`,
+    ].join("\n")
+  );
+  return ["WEBVTT", ...cues].join("\n\n").concat("\n");
+}
+
+function headerLines(meeting: ExportMeeting, options: ExportOptions): string[] {
+  const lines = [meeting.title || "Untitled session"];
+  const details = [`Session ${meeting.code}`];
+  if (meeting.created_at) details.push(new Date(meeting.created_at).toLocaleString());
+  details.push(options.language ? languageLabel(options.language) : "Original languages");
+  lines.push(details.join(" · "));
+  return lines;
+}
+
+function toText(meeting: ExportMeeting, entries: TimedEntry[], options: ExportOptions): string {
+  const [title, details] = headerLines(meeting, options);
+  const body = entries.map((e) => `[${offset(e.startMs)}] ${e.speakerName}: ${oneLine(entryText(e, options))}`);
+  return [title, details, "", ...body].join("\n").concat("\n");
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]#<>|])/g, "\\$1");
+}
+
+// Headings and paragraphs only, so the file pastes or converts cleanly
+// into Word and Google Docs
+function toMarkdown(meeting: ExportMeeting, entries: TimedEntry[], options: ExportOptions): string {
+  const [title, details] = headerLines(meeting, options);
+  const blocks = [`# ${escapeMarkdown(title)}`, `_${escapeMarkdown(details)}_`];
+  for (const e of entries) {
+    blocks.push(
+      `**${escapeMarkdown(e.speakerName)}** (${offset(e.startMs)})  \n${escapeMarkdown(oneLine(entryText(e, options)))}`
+    );
+  }
+  return blocks.join("\n\n").concat("\n");
+}
+
+// Every language and the source data, whichever language was picked, so
+// the file can be re-imported or converted later without loss
+function toJson(meeting: ExportMeeting, entries: TimedEntry[], options: ExportOptions): string {
+  const doc = {
+    format: "relay-transcript",
+    version: 1,
+    exported_at: new Date().toISOString(),
+    language: options.language,
+    meeting: {
+      id: meeting.id,
+      code: meeting.code,
+      title: meeting.title,
+      created_at: meeting.created_at ?? null,
+      ended_at: meeting.ended_at ?? null,
+    },
+    entries: entries.map((e) => ({
+      id: e.id,
+      speaker_id: e.speakerId,
+      speaker_name: e.speakerName,
+      original_language: e.originalLanguage,
+      original_text: e.originalText,
+      translations: e.translations,
+      timestamp: e.timestamp,
+      start_ms: e.startMs,
+      end_ms: e.endMs,
+    })),
+  };
+  return JSON.stringify(doc, null, 2).concat("\n");
+}
+
+export function exportTranscript(
+  meeting: ExportMeeting,
+  entries: ExportEntry[],
+  format: ExportFormat,
+  options: ExportOptions
+): string {
+  const timed = computeCueTimings(entries, options);
+  switch (format) {
+    case "srt":
+      return toSrt(timed, options);
+    case "vtt":
+      return toVtt(timed, options);
+    case "txt":
+      return toText(meeting, timed, options);
+    case "md":
+      return toMarkdown(meeting, timed, options);
+    case "json":
+      return toJson(meeting, timed, options);
+  }
+}
+
+export function exportFilename(meeting: ExportMeeting, format: ExportFormat, options: ExportOptions): string {
+  const info = EXPORT_FORMATS.find((f) => f.format === format);
+  const slug =
+    (meeting.title || "session")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "session";
+  const language = format !== "json" && options.language ? `-${options.language}` : "";
+  return `${slug}-${meeting.code}${language}.${info?.extension ?? format}`;
+}
+
+/** Build the file and hand it to the browser as a download. */
+export function downloadTranscript(
+  meeting: ExportMeeting,
+  entries: ExportEntry[],
+  format: ExportFormat,
+  options: ExportOptions
+): void {
+  const info = EXPORT_FORMATS.find((f) => f.format === format);
+  const blob = new Blob([exportTranscript(meeting, entries, format, options)], {
+    type: `${info?.mimeType ?? "text/plain"};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = exportFilename(meeting, format, options);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Let the download start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
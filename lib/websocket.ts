@@ -3,79 +3,405 @@
  *
  * Connects to: ws://localhost:8000/ws/{meetingId}/{participantId}
  *
- * Incoming messages are JSON with shape TranscriptMessage.
- * Outgoing messages are binary audio chunks (ArrayBuffer / Blob).
+ * Incoming messages are JSON ServerMessage events, validated at runtime and
+ * dispatched by `type` to handlers registered with on().
+ * Outgoing messages are binary audio chunks (ArrayBuffer / Blob) and JSON
+ * ClientMessage control frames sent with send().
+ *
+ * Dropped connections are retried with jittered exponential backoff up to
+ * `maxAttempts`. A ping/pong heartbeat detects half-open sockets, and after
+ * every reconnect a "resume" frame carries the last transcript seq/timestamp
+ * so the server can replay what was missed.
+ *
+ * Audio sent while the socket is down is held in a bounded AudioChunkQueue
+ * and flushed in order once the connection is back. Messages the server
+ * needs before any audio (the stream's format and session state) are
+ * registered with setHandshake() and sent first on every open, followed by
+ * the audio container header (setAudioHeader) when there is one.
  */
 
-import type { TranscriptMessage } from "@/types";
+import type { ClientMessage, ServerMessage, ServerMessageType } from "@/types";
+import { AudioChunkQueue, DEFAULT_AUDIO_QUEUE_OPTIONS } from "@/lib/audioQueue";
+import type { AudioChunk, AudioQueueOptions, AudioQueueStats } from "@/lib/audioQueue";
 
 const WS_BASE_URL =
   (process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8000")
     .replace(/^http/, "ws");
 
-export type TranscriptHandler = (msg: TranscriptMessage) => void;
-export type StatusHandler = (status: "connecting" | "open" | "closed" | "error") => void;
+export type ConnectionPhase =
+  | "idle" // not started yet
+  | "connecting" // first attempt in progress
+  | "open"
+  | "reconnecting" // waiting for `retryAt`, or attempt in progress
+  | "failed" // gave up after maxAttempts — call retryNow()
+  | "closed"; // disconnect() was called
+
+export interface ConnectionState {
+  phase: ConnectionPhase;
+  attempt: number; // reconnect attempts since the last successful open
+  maxAttempts: number;
+  retryAt: number | null; // epoch ms of the next scheduled attempt
+}
+
+export type StateHandler = (state: ConnectionState) => void;
+export type HandshakeBuilder = () => ClientMessage[];
+
+export interface RelayWebSocketOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  heartbeatIntervalMs: number;
+  heartbeatTimeoutMs: number; // silence after a ping before the socket is considered dead
+  audioQueue: AudioQueueOptions; // outbound buffer used while disconnected
+}
+
+const DEFAULT_OPTIONS: RelayWebSocketOptions = {
+  maxAttempts: 10,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  heartbeatIntervalMs: 15_000,
+  heartbeatTimeoutMs: 10_000,
+  audioQueue: DEFAULT_AUDIO_QUEUE_OPTIONS,
+};
+
+export type ServerMessageOf<K extends ServerMessageType> = Extract<ServerMessage, { type: K }>;
+export type MessageHandler<K extends ServerMessageType> = (msg: ServerMessageOf<K>) => void;
+
+// ── Runtime validation ────────────────────────────────────────────────────────
+
+type Json = Record<string, unknown>;
+
+const isString = (v: unknown): v is string => typeof v === "string";
+const isOptionalString = (v: unknown) => v === undefined || v === null || isString(v);
+const isStringRecord = (v: unknown): v is Record<string, string> =>
+  typeof v === "object" &&
+  v !== null &&
+  !Array.isArray(v) &&
+  Object.values(v).every(isString);
+
+const VALIDATORS: { [K in ServerMessageType]: (d: Json) => boolean } = {
+  transcript: (d) =>
+    isString(d.speaker_id) &&
+    isString(d.speaker_name) &&
+    isString(d.original_text) &&
+    isString(d.original_language) &&
+    isStringRecord(d.translations) &&
+    isString(d.timestamp) &&
+    isOptionalString(d.utterance_id) &&
+    (d.seq === undefined || typeof d.seq === "number"),
+  transcript_partial: (d) =>
+    isString(d.utterance_id) &&
+    isString(d.speaker_id) &&
+    isString(d.speaker_name) &&
+    isString(d.text) &&
+    isString(d.language) &&
+    isString(d.timestamp),
+  translation_update: (d) =>
+    isString(d.utterance_id) && isString(d.language) && isString(d.text),
+  participant_joined: (d) => {
+    const p = d.participant as Json | null | undefined;
+    return (
+      typeof p === "object" &&
+      p !== null &&
+      isString(p.id) &&
+      isString(p.meeting_id) &&
+      isString(p.name) &&
+      isString(p.preferred_language)
+    );
+  },
+  participant_left: (d) => isString(d.participant_id) && isOptionalString(d.left_at),
+  meeting_ended: (d) => isString(d.meeting_id) && isOptionalString(d.ended_at),
+  force_mute: (d) => isOptionalString(d.participant_id),
+  participant_removed: (d) => isString(d.participant_id),
+  room_locked: (d) => typeof d.locked === "boolean",
+  speaking: (d) => isString(d.speaker_id) && typeof d.speaking === "boolean",
+  error: (d) => isString(d.code) && isString(d.message),
+  pong: (d) => d.ts === undefined || typeof d.ts === "number",
+};
+
+/**
+ * Validate a decoded frame. Returns null for anything that isn't a known,
+ * well-formed server event.
+ */
+export function parseServerMessage(data: unknown): ServerMessage | null {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return null;
+  const d = data as Json;
+  // Older backends send bare transcript objects without a discriminator
+  const type = d.type ?? (isString(d.original_text) ? "transcript" : undefined);
+  if (!isString(type) || !Object.hasOwn(VALIDATORS, type)) return null;
+  const validate = VALIDATORS[type as ServerMessageType];
+  return validate(d) ? ({ ...d, type } as ServerMessage) : null;
+}
+
+// ── Client ────────────────────────────────────────────────────────────────────
 
 export class RelayWebSocket {
   private ws: WebSocket | null = null;
   private meetingId: string;
   private participantId: string;
-  private onTranscript: TranscriptHandler;
-  private onStatus: StatusHandler;
+  private options: RelayWebSocketOptions;
+  private handlers = new Map<ServerMessageType, Set<(msg: ServerMessage) => void>>();
+  private stateHandlers = new Set<StateHandler>();
+  private handshake: HandshakeBuilder | null = null;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private shouldReconnect = true;
+  private hasOpened = false;
+  private lastReceivedAt = 0;
+  private lastSeq: number | null = null;
+  private lastTimestamp: string | null = null;
+  private _state: ConnectionState;
+  private audioQueue: AudioChunkQueue;
+  private audioHeader: AudioChunk | null = null;
 
   constructor(
     meetingId: string,
     participantId: string,
-    onTranscript: TranscriptHandler,
-    onStatus: StatusHandler
+    options: Partial<RelayWebSocketOptions> = {}
   ) {
     this.meetingId = meetingId;
     this.participantId = participantId;
-    this.onTranscript = onTranscript;
-    this.onStatus = onStatus;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.audioQueue = new AudioChunkQueue(this.options.audioQueue);
+    this._state = {
+      phase: "idle",
+      attempt: 0,
+      maxAttempts: this.options.maxAttempts,
+      retryAt: null,
+    };
+  }
+
+  /**
+   * Subscribe to one server event type. Returns an unsubscribe function.
+   */
+  on<K extends ServerMessageType>(type: K, handler: MessageHandler<K>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    const h = handler as (msg: ServerMessage) => void;
+    set.add(h);
+    return () => {
+      set.delete(h);
+    };
+  }
+
+  /**
+   * Subscribe to connection state changes. The handler is called right away
+   * with the current state. Returns an unsubscribe function.
+   */
+  onStateChange(handler: StateHandler): () => void {
+    this.stateHandlers.add(handler);
+    handler(this._state);
+    return () => {
+      this.stateHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Messages to send at the start of every connection, ahead of the resume
+   * frame and any buffered audio. The builder is called on each open so it
+   * can report current state; if the socket is already open they are sent
+   * right away. Returns a function that removes the handshake.
+   */
+  setHandshake(build: HandshakeBuilder): () => void {
+    this.handshake = build;
+    if (this.isConnected) build().forEach((msg) => this.send(msg));
+    return () => {
+      if (this.handshake === build) this.handshake = null;
+    };
+  }
+
+  get state(): ConnectionState {
+    return this._state;
+  }
+
+  private setState(patch: Partial<ConnectionState>): void {
+    this._state = { ...this._state, ...patch };
+    this.stateHandlers.forEach((h) => h(this._state));
+  }
+
+  private dispatch(msg: ServerMessage): void {
+    this.handlers.get(msg.type)?.forEach((h) => {
+      try {
+        h(msg);
+      } catch (err) {
+        console.error(`[RelayWebSocket] "${msg.type}" handler failed:`, err);
+      }
+    });
   }
 
   connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) return;
+    if (
+      this.ws?.readyState === WebSocket.OPEN ||
+      this.ws?.readyState === WebSocket.CONNECTING
+    ) {
+      return;
+    }
+    this.shouldReconnect = true;
+    this.clearReconnectTimer();
 
     const url = `${WS_BASE_URL}/ws/${this.meetingId}/${this.participantId}`;
-    this.onStatus("connecting");
-    this.ws = new WebSocket(url);
+    this.setState({ phase: this.hasOpened ? "reconnecting" : "connecting", retryAt: null });
+    const ws = new WebSocket(url);
+    this.ws = ws;
 
-    this.ws.onopen = () => {
-      this.onStatus("open");
+    ws.onopen = () => {
+      const isReconnect = this.hasOpened;
+      this.hasOpened = true;
+      this.lastReceivedAt = Date.now();
+      this.handshake?.().forEach((msg) => this.send(msg));
+      if (isReconnect) {
+        this.send({
+          type: "resume",
+          last_seq: this.lastSeq,
+          last_timestamp: this.lastTimestamp,
+        });
+      }
+      if (this.audioHeader) ws.send(this.audioHeader);
+      for (const chunk of this.audioQueue.drain()) {
+        ws.send(chunk);
+      }
+      this.startHeartbeat();
+      this.setState({ phase: "open", attempt: 0, retryAt: null });
     };
 
-    this.ws.onmessage = (event) => {
+    ws.onmessage = (event) => {
+      this.lastReceivedAt = Date.now();
+      if (typeof event.data !== "string") return;
+      let data: unknown;
       try {
-        const data = JSON.parse(event.data as string) as TranscriptMessage;
-        this.onTranscript(data);
+        data = JSON.parse(event.data);
       } catch {
         // Ignore non-JSON messages
+        return;
+      }
+      const msg = parseServerMessage(data);
+      if (!msg) {
+        console.warn("[RelayWebSocket] Ignoring unrecognised message:", data);
+        return;
       }
+      if (msg.type === "transcript") {
+        // Replays after a resume may overlap what we already have
+        if (msg.seq !== undefined) {
+          if (this.lastSeq !== null && msg.seq <= this.lastSeq) return;
+          this.lastSeq = msg.seq;
+        }
+        this.lastTimestamp = msg.timestamp;
+      }
+      this.dispatch(msg);
     };
 
-    this.ws.onerror = () => {
-      this.onStatus("error");
+    ws.onclose = () => {
+      if (this.ws === ws) this.handleDrop();
     };
+  }
 
-    this.ws.onclose = () => {
-      this.onStatus("closed");
-      if (this.shouldReconnect) {
-        this.reconnectTimer = setTimeout(() => this.connect(), 3000);
+  /**
+   * Give up on the current socket and schedule the next attempt, or move to
+   * "failed" once maxAttempts is exhausted.
+   */
+  private handleDrop(): void {
+    this.stopHeartbeat();
+    if (this.ws) {
+      this.ws.onopen = this.ws.onmessage = this.ws.onclose = null;
+      if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
+        this.ws.close();
       }
-    };
+      this.ws = null;
+    }
+    if (!this.shouldReconnect) return;
+
+    const attempt = this._state.attempt;
+    if (attempt >= this.options.maxAttempts) {
+      this.setState({ phase: "failed", retryAt: null });
+      return;
+    }
+
+    // Full jitter between half and all of the exponential delay
+    const exp = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    const delay = Math.round(exp / 2 + Math.random() * (exp / 2));
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    this.setState({ phase: "reconnecting", attempt: attempt + 1, retryAt: Date.now() + delay });
+  }
+
+  /**
+   * Reconnect immediately — after "failed", or to skip a pending backoff.
+   */
+  retryNow(): void {
+    if (this._state.phase === "open") return;
+    this.setState({ attempt: 0 });
+    this.connect();
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    const { heartbeatIntervalMs, heartbeatTimeoutMs } = this.options;
+    this.heartbeatTimer = setInterval(() => {
+      // Any inbound frame counts as proof of life, not only pongs
+      if (Date.now() - this.lastReceivedAt > heartbeatIntervalMs + heartbeatTimeoutMs) {
+        console.warn("[RelayWebSocket] Heartbeat timed out, reconnecting");
+        this.handleDrop();
+        return;
+      }
+      this.send({ type: "ping", ts: Date.now() });
+    }, heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Send a typed control message. Returns false if the socket isn't open.
+   */
+  send(msg: ClientMessage): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(msg));
+    return true;
   }
 
   /**
    * Send a binary audio chunk to the backend for STT processing.
+   * While disconnected the chunk is queued (see AudioChunkQueue); pass its
+   * duration so dropped audio can be reported in milliseconds.
    */
-  sendAudioChunk(chunk: ArrayBuffer | Blob): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+  sendAudioChunk(chunk: AudioChunk, durationMs = 0): void {
+    if (this.ws?.readyState === WebSocket.OPEN && this.audioQueue.length === 0) {
       this.ws.send(chunk);
+      return;
     }
+    if (this.shouldReconnect) {
+      this.audioQueue.push(chunk, durationMs);
+    }
+  }
+
+  /**
+   * The audio stream's container header — the WebM init segment cut from
+   * a MediaRecorder's first chunk, with no audio in it — without which the
+   * chunks after it can't be decoded. It is sent now if connected and again on every
+   * reconnect ahead of the buffered audio. Kept out of the audio queue, so
+   * eviction never drops it. Pass null when the stream stops.
+   */
+  setAudioHeader(chunk: AudioChunk | null): void {
+    this.audioHeader = chunk;
+    if (chunk && this.ws?.readyState === WebSocket.OPEN) this.ws.send(chunk);
+  }
+
+  /** Outbound audio buffer usage and how much audio has been dropped. */
+  get audioBufferStats(): AudioQueueStats {
+    return this.audioQueue.stats;
   }
 
   /**
@@ -89,12 +415,16 @@ export class RelayWebSocket {
 
   disconnect(): void {
     this.shouldReconnect = false;
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    this.audioQueue.clear();
+    this.audioHeader = null;
+    if (this.ws) {
+      this.ws.onopen = this.ws.onmessage = this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
     }
-    this.ws?.close();
-    this.ws = null;
+    this.setState({ phase: "closed", retryAt: null });
   }
 
   get isConnected(): boolean {
@@ -0,0 +1,75 @@
+/**
+ * AudioWorklet processor for the STT capture pipeline.
+ *
+ * Downmixes the input to mono, low-passes and resamples it to
+ * `targetSampleRate`, and posts fixed-size Int16 frames of `frameMs` to the
+ * main thread as { samples: Int16Array }. Loaded by lib/audio/pcmCapture.ts.
+ */
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate = 16000, frameMs = 40 } = options.processorOptions || {};
+
+    // `sampleRate` is the AudioContext rate, provided by the worklet scope
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = Math.round((targetSampleRate * frameMs) / 1000);
+    this.frame = new Int16Array(this.frameSize);
+    this.frameIndex = 0;
+
+    // Fractional read position into the current block; index 0 interpolates
+    // from the last sample of the previous block
+    this.position = 0;
+    this.previous = 0;
+
+    // Two cascaded one-pole low-pass filters as a cheap anti-aliasing stage
+    const cutoff = Math.min(0.45 * targetSampleRate, 0.45 * sampleRate);
+    this.alpha = 1 - Math.exp((-2 * Math.PI * cutoff) / sampleRate);
+    this.lp1 = 0;
+    this.lp2 = 0;
+    this.mono = new Float32Array(128);
+  }
+
+  pushSample(value) {
+    const clamped = Math.max(-1, Math.min(1, value));
+    this.frame[this.frameIndex++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.frameIndex === this.frameSize) {
+      const samples = this.frame;
+      this.port.postMessage({ samples }, [samples.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.frameIndex = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const length = input[0].length;
+    if (this.mono.length !== length) this.mono = new Float32Array(length);
+    const mono = this.mono;
+
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let c = 0; c < input.length; c++) sum += input[c][i];
+      this.lp1 += this.alpha * (sum / input.length - this.lp1);
+      this.lp2 += this.alpha * (this.lp1 - this.lp2);
+      mono[i] = this.lp2;
+    }
+
+    while (this.position < length) {
+      const i = Math.floor(this.position);
+      const frac = this.position - i;
+      const a = i === 0 ? this.previous : mono[i - 1];
+      const b = mono[i];
+      this.pushSample(a + (b - a) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= length;
+    this.previous = mono[length - 1];
+
+    return true;
+  }
+}
+
+registerProcessor("pcm-capture", PcmCaptureProcessor);
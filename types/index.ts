@@ -35,6 +35,7 @@ export interface Meeting {
   status: "active" | "ended";
   created_at?: string | null;
   ended_at?: string | null;
+  is_locked?: boolean; // the host has closed the room to new joiners
   host_name?: string;  // Company name for host display
 }
 
@@ -119,10 +120,14 @@ export interface AgoraTokenResponse {
   expires_in: number;
 }
 
-// ── WebSocket transcript message ──────────────────────────────────────────────
+// ── WebSocket protocol ────────────────────────────────────────────────────────
+
+// Server → client events. Every frame is JSON with a `type` discriminator.
 
 export interface TranscriptMessage {
   type: "transcript";
+  seq?: number; // monotonically increasing per meeting — used to resume
+  utterance_id?: string;
   speaker_id: string;
   speaker_name: string;
   original_text: string;
@@ -131,6 +136,138 @@ export interface TranscriptMessage {
   timestamp: string;
 }
 
+/** Interim hypothesis for an utterance that is still being spoken. */
+export interface PartialTranscriptMessage {
+  type: "transcript_partial";
+  utterance_id: string;
+  speaker_id: string;
+  speaker_name: string;
+  text: string;
+  language: string;
+  timestamp: string;
+}
+
+/** Late-arriving translation for an utterance already delivered. */
+export interface TranslationUpdateMessage {
+  type: "translation_update";
+  utterance_id: string;
+  language: string;
+  text: string;
+}
+
+export interface ParticipantJoinedMessage {
+  type: "participant_joined";
+  participant: Participant;
+}
+
+export interface ParticipantLeftMessage {
+  type: "participant_left";
+  participant_id: string;
+  left_at?: string | null;
+}
+
+export interface MeetingEndedMessage {
+  type: "meeting_ended";
+  meeting_id: string;
+  ended_at?: string | null;
+}
+
+/** The host muted one participant, or everyone but themselves (participant_id null). */
+export interface ForceMuteMessage {
+  type: "force_mute";
+  participant_id: string | null;
+}
+
+/** The host removed a participant; they are also marked as left. */
+export interface ParticipantRemovedMessage {
+  type: "participant_removed";
+  participant_id: string;
+}
+
+export interface RoomLockMessage {
+  type: "room_locked";
+  locked: boolean;
+}
+
+export interface SpeakingMessage {
+  type: "speaking";
+  speaker_id: string;
+  speaking: boolean;
+}
+
+export interface ServerErrorMessage {
+  type: "error";
+  code: string;
+  message: string;
+}
+
+export interface PongMessage {
+  type: "pong";
+  ts?: number;
+}
+
+export type ServerMessage =
+  | TranscriptMessage
+  | PartialTranscriptMessage
+  | TranslationUpdateMessage
+  | ParticipantJoinedMessage
+  | ParticipantLeftMessage
+  | MeetingEndedMessage
+  | ForceMuteMessage
+  | ParticipantRemovedMessage
+  | RoomLockMessage
+  | SpeakingMessage
+  | ServerErrorMessage
+  | PongMessage;
+
+export type ServerMessageType = ServerMessage["type"];
+
+// Client → server control messages. Audio is sent as binary frames instead.
+
+export interface LanguageChangeMessage {
+  type: "set_language";
+  language: string;
+}
+
+export interface MuteStateMessage {
+  type: "mute_state";
+  muted: boolean;
+}
+
+export interface HandRaiseMessage {
+  type: "hand_raise";
+  raised: boolean;
+}
+
+/** Declares how the binary audio frames that follow are encoded. */
+export interface AudioFormatMessage {
+  type: "audio_format";
+  encoding: "webm_opus" | "pcm_s16le";
+  sample_rate?: number;
+  frame_ms?: number;
+}
+
+/** Heartbeat — the server answers with a PongMessage. */
+export interface PingMessage {
+  type: "ping";
+  ts: number;
+}
+
+/** Sent after a reconnect so the server can replay missed transcripts. */
+export interface ResumeMessage {
+  type: "resume";
+  last_seq: number | null;
+  last_timestamp: string | null;
+}
+
+export type ClientMessage =
+  | LanguageChangeMessage
+  | MuteStateMessage
+  | HandRaiseMessage
+  | AudioFormatMessage
+  | PingMessage
+  | ResumeMessage;
+
 // ── Language options ──────────────────────────────────────────────────────────
 
 export const SUPPORTED_LANGUAGES: { code: string; label: string }[] = [